@@ -0,0 +1,64 @@
+/**
+ * analyze.ts - Server-Side Analysis
+ *
+ * Runs the shared pipeline from src/utils/analysis.ts on an uploaded
+ * video decoded by ffmpeg. The simulated detector is seeded from the
+ * file's content hash exactly as in the browser, so a clip gives the
+ * same result on either side. Progress and log lines go to the job
+ * the analysis runs in.
+ */
+
+import { openAsBlob } from 'fs';
+import { AnalysisResponse, GpsPoint, RiskModelConfig, Zone } from '../../src/types';
+import { runAnalysis } from '../../src/utils/analysis';
+import { createSimulatedDetector } from '../../src/utils/detectors';
+import { seedFromFile } from '../../src/utils/random';
+import type { JobContext } from './jobs';
+import { openVideoSource } from './videoSource';
+
+export interface UploadedVideo {
+  path: string;
+  originalName: string;
+  locationName: string;
+  lat: number;
+  lon: number;
+  seed?: number;
+  riskModel?: RiskModelConfig;
+  zones?: Zone[];
+  recordedAt?: string; // from the video's metadata, read by the browser
+  gpsTrack?: GpsPoint[];
+}
+
+export async function analyzeUpload(id: string, upload: UploadedVideo, job: JobContext): Promise<AnalysisResponse> {
+  const seed = upload.seed ?? await seedFromFile((await openAsBlob(upload.path)) as File);
+  const source = await openVideoSource(upload.path);
+  const { width, height, frameRate, duration } = source.metadata;
+  job.log(`Decoding ${upload.originalName}: ${width}x${height}, ${frameRate} fps, ${duration.toFixed(1)}s`);
+  const detector = createSimulatedDetector(seed);
+
+  try {
+    const result = await runAnalysis(
+      source,
+      upload.originalName,
+      detector,
+      seed,
+      { riskModel: upload.riskModel, zones: upload.zones, signal: job.signal },
+      progress => job.progress(progress)
+    );
+    job.log(`Finished: ${result.riskLevel} risk, score ${result.riskScore}`);
+    return {
+      id,
+      ...result,
+      locationName: upload.locationName,
+      lat: upload.lat,
+      lon: upload.lon,
+      videoName: upload.originalName,
+      zones: upload.zones ?? [],
+      recordedAt: upload.recordedAt,
+      gpsTrack: upload.gpsTrack,
+      timestamp: new Date().toISOString(),
+    };
+  } finally {
+    detector.dispose();
+  }
+}
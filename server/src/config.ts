@@ -0,0 +1,33 @@
+/**
+ * config.ts - Server Configuration
+ *
+ * Everything deployment-specific comes from environment variables, with
+ * defaults that run the server next to the Vite dev server.
+ */
+
+import path from 'path';
+
+export const PORT = Number(process.env.PORT) || 3001;
+
+// Uploaded videos and the results database live under this directory
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || 'data');
+export const UPLOAD_DIR = path.join(DATA_DIR, 'videos');
+export const DB_FILE = path.join(DATA_DIR, 'analyses.json');
+
+// Chunks of resumable uploads, kept until their analysis succeeds
+export const CHUNK_DIR = path.join(DATA_DIR, 'chunks');
+
+export const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 2048) * 1024 * 1024;
+export const MAX_CHUNK_BYTES = (Number(process.env.MAX_CHUNK_MB) || 64) * 1024 * 1024;
+// Form fields of an analysis request; a long clip's GPS track is the largest
+export const MAX_FIELD_BYTES = (Number(process.env.MAX_FIELD_MB) || 16) * 1024 * 1024;
+
+// Unfinished uploads with no new chunk for this long are deleted
+export const UPLOAD_TTL_MS = (Number(process.env.UPLOAD_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+// ffmpeg decodes uploads; override when it is not on PATH
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+export const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+// Origin allowed to call the API from the browser
+export const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
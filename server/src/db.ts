@@ -0,0 +1,49 @@
+/**
+ * db.ts - Local Results Database
+ *
+ * Keeps analysis records in a single JSON file. Records are held in
+ * memory and the whole file is rewritten on each change, through a
+ * temporary file and rename so a crash never leaves it half written.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface RecordStore<T extends { id: string }> {
+  list(): T[];
+  get(id: string): T | undefined;
+  put(record: T): Promise<void>;
+}
+
+export async function openRecordStore<T extends { id: string }>(file: string): Promise<RecordStore<T>> {
+  const records = new Map<string, T>();
+  try {
+    const saved: T[] = JSON.parse(await fs.readFile(file, 'utf8'));
+    saved.forEach(record => records.set(record.id, record));
+    console.log(`[db] Loaded ${records.size} records from ${file}`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+  }
+
+  // Writes run one after another so a slow write never overtakes a newer one
+  let writing: Promise<void> = Promise.resolve();
+  const flush = () => {
+    const written = writing.then(async () => {
+      const temp = `${file}.tmp`;
+      await fs.writeFile(temp, JSON.stringify([...records.values()]));
+      await fs.rename(temp, file);
+    });
+    writing = written.catch(() => {});
+    return written;
+  };
+
+  return {
+    list: () => [...records.values()],
+    get: id => records.get(id),
+    put(record) {
+      records.set(record.id, record);
+      return flush();
+    },
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * errors.ts - HTTP Errors
+ *
+ * Errors thrown with a status code are reported to the client as is;
+ * anything else becomes a 500.
+ */
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * index.ts - SafeSight API Server
+ *
+ * Express server for the routes src/utils/api.ts calls: video upload and
+ * analysis, result history and a health check. Videos arrive in one
+ * request or as resumable chunks (see uploads.ts); each analysis runs as
+ * a background job whose progress is streamed as server-sent events.
+ * Videos are kept on local disk and results in a JSON file database
+ * under DATA_DIR.
+ *
+ * Run with `npm start` in server/; ffmpeg and ffprobe must be on PATH
+ * (or set FFMPEG_PATH / FFPROBE_PATH).
+ */
+
+import express, { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { AnalysisResponse } from '../../src/types';
+import { analysisLocationSchema, gpsPointSchema, parseWithSchema, riskModelConfigSchema, zoneSchema } from '../../src/types/schema';
+import { analyzeUpload } from './analyze';
+import {
+  CHUNK_DIR, CORS_ORIGIN, DB_FILE, MAX_CHUNK_BYTES, MAX_FIELD_BYTES, MAX_UPLOAD_BYTES, PORT, UPLOAD_DIR, UPLOAD_TTL_MS,
+} from './config';
+import { openRecordStore } from './db';
+import { HttpError } from './errors';
+import { createJobRegistry } from './jobs';
+import { openUploadStore } from './uploads';
+
+// Stored result plus the server-side file it came from
+interface AnalysisRecord extends AnalysisResponse {
+  videoFile: string;
+}
+
+function toResponse({ videoFile: _videoFile, ...response }: AnalysisRecord): AnalysisResponse {
+  return response;
+}
+
+// Optional JSON form field, checked against the shared schema
+function parseJsonField<T>(value: unknown, field: string, schema: z.ZodType<T>): T | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new HttpError(400, `${field} is not valid JSON`);
+  }
+  try {
+    return parseWithSchema(schema, parsed, field);
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+}
+
+function parseCoordinate(value: unknown, field: string, limit: number): number {
+  const number = Number(value);
+  if (typeof value !== 'string' || value === '' || !Number.isFinite(number) || Math.abs(number) > limit) {
+    throw new HttpError(400, `${field} must be a number between -${limit} and ${limit}`);
+  }
+  return number;
+}
+
+await fs.mkdir(UPLOAD_DIR, { recursive: true });
+const analyses = await openRecordStore<AnalysisRecord>(DB_FILE);
+const uploads = await openUploadStore({
+  dir: CHUNK_DIR,
+  maxUploadBytes: MAX_UPLOAD_BYTES,
+  maxChunkBytes: MAX_CHUNK_BYTES,
+  ttlMs: UPLOAD_TTL_MS,
+});
+const purgeUploads = () => uploads.purgeExpired().catch(error => console.error('[uploads] Purge failed:', error));
+await purgeUploads();
+setInterval(purgeUploads, 60 * 60 * 1000).unref();
+// Finished jobs stay around so a client that reconnects still gets the result
+const jobs = createJobRegistry(10 * 60 * 1000);
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: UPLOAD_DIR,
+    filename: (_req, file, callback) => callback(null, `${randomUUID()}${path.extname(file.originalname).toLowerCase()}`),
+  }),
+  limits: { fileSize: MAX_UPLOAD_BYTES, fieldSize: MAX_FIELD_BYTES },
+  fileFilter: (_req, file, callback) => {
+    if (file.mimetype.startsWith('video/') || file.mimetype === 'application/octet-stream') callback(null, true);
+    else callback(new HttpError(415, `Unsupported file type ${file.mimetype}`));
+  },
+});
+
+const app = express();
+
+app.use((req, res, next) => {
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Chunk-Sha256');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+app.get('/api/health', (_req, res) => {
+  // No detection model ships with the server yet, so /api/detect is not offered
+  res.json({ status: 'ok', analyses: analyses.list().length, detection: false });
+});
+
+// Resumable uploads: create a session, PUT each chunk, then analyse by uploadId
+app.post('/api/uploads', express.json(), async (req, res, next) => {
+  // A client that gave up before the answer never learns the id, so nobody would resume the session
+  let clientGone = false;
+  res.on('close', () => { clientGone = !res.writableFinished; });
+  try {
+    const { fileName, size, chunkSize } = req.body ?? {};
+    if (typeof fileName !== 'string' || fileName.trim() === '') {
+      throw new HttpError(400, 'fileName is required');
+    }
+    const session = await uploads.create(fileName.trim(), Number(size), Number(chunkSize));
+    if (clientGone) {
+      console.log(`[uploads] Client left before ${session.id} was created, removing it`);
+      await uploads.remove(session.id);
+      return;
+    }
+    res.status(201).json(session);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/uploads/:id', async (req, res, next) => {
+  try {
+    res.json(await uploads.get(req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.put('/api/uploads/:id/chunks/:index', express.raw({ type: () => true, limit: MAX_CHUNK_BYTES }), async (req, res, next) => {
+  try {
+    const sha256 = req.get('X-Chunk-Sha256');
+    if (!sha256 || !/^[0-9a-f]{64}$/i.test(sha256)) {
+      throw new HttpError(400, 'X-Chunk-Sha256 header with the chunk\'s hex SHA-256 is required');
+    }
+    const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    res.json(await uploads.putChunk(req.params.id, Number(req.params.index), data, sha256));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/uploads/:id', async (req, res, next) => {
+  try {
+    await uploads.remove(req.params.id);
+    res.sendStatus(204);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Takes the video as a "video" file, or the id of a completed chunked upload
+app.post('/api/analyze', upload.single('video'), async (req, res, next) => {
+  let video = req.file && { path: req.file.path, originalName: req.file.originalname, size: req.file.size };
+  try {
+    const { locationName, uploadId } = req.body;
+    if (typeof locationName !== 'string' || locationName.trim() === '') {
+      throw new HttpError(400, 'locationName is required');
+    }
+    // An empty field means no seed, not seed 0
+    const seed = req.body.seed !== undefined && req.body.seed !== '' ? Number(req.body.seed) : undefined;
+    if (seed !== undefined && !(Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff)) {
+      throw new HttpError(400, 'seed must be a 32-bit unsigned integer');
+    }
+    const { recordedAt } = req.body;
+    if (recordedAt !== undefined && !z.iso.datetime({ offset: true }).safeParse(recordedAt).success) {
+      throw new HttpError(400, 'recordedAt must be an ISO date-time');
+    }
+    const fields = {
+      locationName: locationName.trim(),
+      lat: parseCoordinate(req.body.lat, 'lat', 90),
+      lon: parseCoordinate(req.body.lon, 'lon', 180),
+      seed,
+      riskModel: parseJsonField(req.body.riskModel, 'riskModel', riskModelConfigSchema),
+      zones: parseJsonField(req.body.zones, 'zones', z.array(zoneSchema)),
+      recordedAt: recordedAt as string | undefined,
+      gpsTrack: parseJsonField(req.body.gpsTrack, 'gpsTrack', z.array(gpsPointSchema)),
+    };
+
+    // Fields are checked first, and the chunks stay until the analysis
+    // succeeds, so a bad request or a failed analysis can be retried
+    const chunkedUploadId = !video && typeof uploadId === 'string' && uploadId !== '' ? uploadId : null;
+    if (chunkedUploadId) {
+      const session = await uploads.get(chunkedUploadId);
+      const target = path.join(UPLOAD_DIR, `${randomUUID()}${path.extname(session.fileName).toLowerCase()}`);
+      await uploads.assemble(chunkedUploadId, target);
+      video = { path: target, originalName: session.fileName, size: session.size };
+    }
+    if (!video) throw new HttpError(400, 'No video uploaded (expected a "video" file or an "uploadId")');
+
+    const id = randomUUID();
+    const stored = video;
+    // Once the analysis has an answer, retrying it is pointless
+    const dropChunks = async () => {
+      if (!chunkedUploadId) return;
+      await uploads.remove(chunkedUploadId).catch(error => console.warn(`[uploads] Could not remove ${chunkedUploadId}:`, error));
+    };
+    const jobId = jobs.start(async job => {
+      console.log(`[api] Analysing ${stored.originalName} (${(stored.size / 1e6).toFixed(1)} MB) as ${id}`);
+      job.log(`Received ${stored.originalName} (${(stored.size / 1e6).toFixed(1)} MB)`);
+      try {
+        const result = await analyzeUpload(id, { path: stored.path, originalName: stored.originalName, ...fields }, job);
+        // Footage that is not of a street is reported to the client but never enters history
+        if (result.isValidStreetFootage === false) {
+          job.log('Not street or road footage; the result is not stored', 'warn');
+          await fs.rm(stored.path, { force: true });
+          await dropChunks();
+          return result;
+        }
+        const record: AnalysisRecord = { ...result, videoFile: path.basename(stored.path) };
+        await analyses.put(record);
+        await dropChunks();
+        return toResponse(record);
+      } catch (error) {
+        // Keep only videos that produced a result; the chunks remain for a retry
+        await fs.rm(stored.path, { force: true });
+        throw error;
+      }
+    });
+    res.status(202).json({ jobId, analysisId: id });
+  } catch (error) {
+    if (video) await fs.rm(video.path, { force: true });
+    next(error);
+  }
+});
+
+// Job events as server-sent events, numbered so EventSource can resume after a drop
+app.get('/api/jobs/:id/events', (req, res, next) => {
+  if (!jobs.has(req.params.id)) {
+    next(new HttpError(404, 'Job not found'));
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const lastEventId = Number(req.get('Last-Event-ID'));
+  const unsubscribe = jobs.subscribe(req.params.id, Number.isInteger(lastEventId) ? lastEventId : -1, (event, index) => {
+    res.write(`id: ${index}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'done' || event.type === 'failed') res.end();
+  });
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+app.delete('/api/jobs/:id', (req, res, next) => {
+  if (!jobs.cancel(req.params.id)) {
+    next(new HttpError(404, 'Job not found'));
+    return;
+  }
+  res.sendStatus(204);
+});
+
+// Newest first, without per-frame data; fetch one analysis for the details
+app.get('/api/analyses', (_req, res) => {
+  const summaries = analyses
+    .list()
+    .filter(record => record.isValidStreetFootage !== false)
+    .map(({ frames: _frames, tracks: _tracks, ...summary }) => toResponse(summary as AnalysisRecord))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  res.json(summaries);
+});
+
+app.get('/api/analyses/:id', (req, res, next) => {
+  const record = analyses.get(req.params.id);
+  if (!record) {
+    next(new HttpError(404, 'Analysis not found'));
+    return;
+  }
+  res.json(toResponse(record));
+});
+
+// Move a result to corrected coordinates, e.g. after its map marker was dragged
+app.patch('/api/analyses/:id', express.json(), async (req, res, next) => {
+  try {
+    const record = analyses.get(req.params.id);
+    if (!record) throw new HttpError(404, 'Analysis not found');
+    let location;
+    try {
+      location = parseWithSchema(analysisLocationSchema, req.body, 'location');
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+    const updated: AnalysisRecord = { ...record, lat: location.lat, lon: location.lon };
+    await analyses.put(updated);
+    console.log(`[api] Moved analysis ${record.id} to ${location.lat.toFixed(5)}, ${location.lon.toFixed(5)}`);
+    res.json(toResponse(updated));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Frame-level detection needs a YOLO model, which this server does not host
+app.post('/api/detect', (_req, _res, next) => {
+  next(new HttpError(501, 'No detection model is configured on this server'));
+});
+
+app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+  // Body parser errors carry their own status (e.g. 413 for an oversized chunk)
+  const parserStatus = (error as { status?: unknown }).status;
+  const status = error instanceof HttpError
+    ? error.status
+    : error instanceof multer.MulterError
+      ? (error.code === 'LIMIT_FILE_SIZE' ? 413 : 400)
+      : typeof parserStatus === 'number' && parserStatus >= 400 && parserStatus < 500 ? parserStatus : 500;
+  if (status >= 500) console.error('[api] Request failed:', error);
+  res.status(status).json({ error: error.message });
+});
+
+app.listen(PORT, () => {
+  console.log(`[api] SafeSight server listening on http://localhost:${PORT}/api`);
+});
@@ -0,0 +1,104 @@
+/**
+ * jobs.ts - Background Analysis Jobs
+ *
+ * POST /api/analyze answers with a job id at once and the analysis runs
+ * here. Every event a job emits (progress, log lines, the result) is
+ * kept and numbered, so a client that subscribes late or reconnects with
+ * Last-Event-ID gets what it missed before the live events.
+ */
+
+import { randomUUID } from 'crypto';
+import { AnalysisJobEvent, AnalysisLogEntry, AnalysisProgress, AnalysisResponse } from '../../src/types';
+import { describeProgress } from '../../src/utils/analysis';
+
+// Handed to the running analysis to report on itself
+export interface JobContext {
+  signal: AbortSignal;
+  progress(progress: AnalysisProgress): void;
+  log(message: string, level?: AnalysisLogEntry['level']): void;
+}
+
+export type JobListener = (event: AnalysisJobEvent, index: number) => void;
+
+export interface JobRegistry {
+  start(run: (job: JobContext) => Promise<AnalysisResponse>): string;
+  has(id: string): boolean;
+  /** Replay events after `afterIndex`, then follow live ones; returns the unsubscribe function */
+  subscribe(id: string, afterIndex: number, listener: JobListener): () => void;
+  /** Ask a running job to stop; false when there is no such job */
+  cancel(id: string): boolean;
+}
+
+interface Job {
+  events: AnalysisJobEvent[];
+  listeners: Set<JobListener>;
+  controller: AbortController;
+  finished: boolean;
+}
+
+/**
+ * @param retentionMs how long finished jobs stay available for late subscribers
+ */
+export function createJobRegistry(retentionMs: number): JobRegistry {
+  const jobs = new Map<string, Job>();
+
+  const emit = (job: Job, event: AnalysisJobEvent) => {
+    if (job.finished) return;
+    job.events.push(event);
+    job.listeners.forEach(listener => listener(event, job.events.length - 1));
+    if (event.type === 'done' || event.type === 'failed') job.finished = true;
+  };
+
+  return {
+    start(run) {
+      const id = randomUUID();
+      const job: Job = { events: [], listeners: new Set(), controller: new AbortController(), finished: false };
+      jobs.set(id, job);
+
+      let previous: AnalysisProgress | null = null;
+      const log: JobContext['log'] = (message, level = 'info') =>
+        emit(job, { type: 'log', entry: { time: new Date().toISOString(), level, message } });
+      const context: JobContext = {
+        signal: job.controller.signal,
+        progress(progress) {
+          emit(job, { type: 'progress', progress });
+          const line = describeProgress(progress, previous);
+          if (line) log(line);
+          previous = progress;
+        },
+        log,
+      };
+
+      run(context)
+        .then(analysis => emit(job, { type: 'done', analysis }))
+        .catch(error => {
+          const message = job.controller.signal.aborted ? 'Analysis cancelled' : (error as Error).message;
+          if (!job.controller.signal.aborted) console.error(`[jobs] Job ${id} failed:`, error);
+          log(message, 'error');
+          emit(job, { type: 'failed', error: message });
+        })
+        .finally(() => {
+          job.listeners.clear();
+          setTimeout(() => jobs.delete(id), retentionMs).unref();
+        });
+      return id;
+    },
+
+    has: id => jobs.has(id),
+
+    subscribe(id, afterIndex, listener) {
+      const job = jobs.get(id);
+      if (!job) return () => {};
+      job.events.slice(afterIndex + 1).forEach((event, offset) => listener(event, afterIndex + 1 + offset));
+      if (!job.finished) job.listeners.add(listener);
+      return () => job.listeners.delete(listener);
+    },
+
+    cancel(id) {
+      const job = jobs.get(id);
+      if (!job) return false;
+      job.controller.abort();
+      return true;
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * uploads.ts - Resumable Chunked Uploads
+ *
+ * A large video is sent as numbered chunks, each with its SHA-256, so a
+ * dropped connection only costs the chunk in flight. Chunks are stored
+ * as separate files under CHUNK_DIR/<upload id>/ and survive a restart;
+ * once all have arrived they are joined into one file for analysis. The
+ * chunks are kept until the analysis succeeds, so a failed one can be
+ * retried by upload id without sending the video again.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HttpError } from './errors';
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  size: number; // bytes
+  chunkSize: number; // bytes; the last chunk may be shorter
+  chunkCount: number;
+  received: number[]; // indices of stored chunks, ascending
+}
+
+type SessionInfo = Omit<UploadSession, 'chunkCount' | 'received'>;
+
+export interface UploadStore {
+  create(fileName: string, size: number, chunkSize: number): Promise<UploadSession>;
+  get(id: string): Promise<UploadSession>;
+  /** Store one chunk after checking its length and checksum */
+  putChunk(id: string, index: number, data: Buffer, sha256: string): Promise<UploadSession>;
+  /** Join all chunks into `destination`; the session stays until removed */
+  assemble(id: string, destination: string): Promise<UploadSession>;
+  remove(id: string): Promise<void>;
+  /** Delete sessions with no new chunk within the time-to-live */
+  purgeExpired(): Promise<number>;
+}
+
+interface UploadStoreOptions {
+  dir: string;
+  maxUploadBytes: number;
+  maxChunkBytes: number;
+  ttlMs: number;
+}
+
+const SESSION_FILE = 'upload.json';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export async function openUploadStore(options: UploadStoreOptions): Promise<UploadStore> {
+  const { dir, maxUploadBytes, maxChunkBytes, ttlMs } = options;
+  await fs.mkdir(dir, { recursive: true });
+
+  // Ids become directory names, so only accept ones this store could have made
+  const sessionDir = (id: string) => {
+    if (!UUID_PATTERN.test(id)) throw new HttpError(404, 'Upload not found');
+    return path.join(dir, id);
+  };
+
+  const chunkLength = (session: UploadSession, index: number) =>
+    index < session.chunkCount - 1 ? session.chunkSize : session.size - session.chunkSize * (session.chunkCount - 1);
+
+  const load = async (id: string): Promise<UploadSession> => {
+    const folder = sessionDir(id);
+    let info: SessionInfo;
+    let names: string[];
+    try {
+      info = JSON.parse(await fs.readFile(path.join(folder, SESSION_FILE), 'utf8'));
+      names = await fs.readdir(folder);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new HttpError(404, 'Upload not found');
+      throw error;
+    }
+    const received = names
+      .filter(name => /^\d+\.part$/.test(name))
+      .map(name => parseInt(name, 10))
+      .sort((a, b) => a - b);
+    return { ...info, chunkCount: Math.max(1, Math.ceil(info.size / info.chunkSize)), received };
+  };
+
+  return {
+    async create(fileName, size, chunkSize) {
+      if (!Number.isInteger(size) || size <= 0) throw new HttpError(400, 'size must be a positive integer');
+      if (size > maxUploadBytes) throw new HttpError(413, `Video is larger than ${Math.round(maxUploadBytes / 1024 / 1024)} MB`);
+      if (!Number.isInteger(chunkSize) || chunkSize <= 0 || chunkSize > maxChunkBytes) {
+        throw new HttpError(400, `chunkSize must be between 1 and ${maxChunkBytes} bytes`);
+      }
+
+      const info: SessionInfo = { id: randomUUID(), fileName, size, chunkSize };
+      await fs.mkdir(sessionDir(info.id));
+      await fs.writeFile(path.join(sessionDir(info.id), SESSION_FILE), JSON.stringify(info));
+      console.log(`[uploads] Started ${info.id} for ${fileName} (${(size / 1e6).toFixed(1)} MB)`);
+      return load(info.id);
+    },
+
+    get: load,
+
+    async putChunk(id, index, data, sha256) {
+      const session = await load(id);
+      if (!Number.isInteger(index) || index < 0 || index >= session.chunkCount) {
+        throw new HttpError(400, `Chunk index must be between 0 and ${session.chunkCount - 1}`);
+      }
+      const expected = chunkLength(session, index);
+      if (data.length !== expected) {
+        throw new HttpError(400, `Chunk ${index} should be ${expected} bytes, got ${data.length}`);
+      }
+      const actual = createHash('sha256').update(data).digest('hex');
+      if (actual !== sha256.toLowerCase()) {
+        throw new HttpError(422, `Checksum mismatch for chunk ${index}`);
+      }
+
+      // Write then rename, so a retried or interrupted chunk never leaves a partial file
+      const target = path.join(sessionDir(id), `${index}.part`);
+      const temp = `${target}.${randomUUID()}.tmp`;
+      await fs.writeFile(temp, data);
+      await fs.rename(temp, target);
+      return {
+        ...session,
+        received: session.received.includes(index) ? session.received : [...session.received, index].sort((a, b) => a - b),
+      };
+    },
+
+    async assemble(id, destination) {
+      const session = await load(id);
+      if (session.received.length < session.chunkCount) {
+        throw new HttpError(409, `Upload incomplete: ${session.received.length} of ${session.chunkCount} chunks received`);
+      }
+
+      const output = await fs.open(destination, 'w');
+      try {
+        for (let index = 0; index < session.chunkCount; index++) {
+          await output.write(await fs.readFile(path.join(sessionDir(id), `${index}.part`)));
+        }
+      } catch (error) {
+        await output.close();
+        await fs.rm(destination, { force: true });
+        throw error;
+      }
+      await output.close();
+      console.log(`[uploads] Assembled ${id} from ${session.chunkCount} chunks`);
+      return session;
+    },
+
+    async remove(id) {
+      await fs.rm(sessionDir(id), { recursive: true, force: true });
+    },
+
+    async purgeExpired() {
+      let purged = 0;
+      for (const name of await fs.readdir(dir)) {
+        if (!UUID_PATTERN.test(name)) continue;
+        const { mtimeMs } = await fs.stat(path.join(dir, name));
+        if (Date.now() - mtimeMs > ttlMs) {
+          await fs.rm(path.join(dir, name), { recursive: true, force: true });
+          purged++;
+        }
+      }
+      if (purged > 0) console.log(`[uploads] Removed ${purged} expired uploads`);
+      return purged;
+    },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * videoSource.ts - ffmpeg Frame Source
+ * Server-side counterpart of src/utils/frameSource.ts
+ *
+ * Reads duration, resolution and frame rate with ffprobe and streams
+ * every `frameSkip`-th frame as raw RGBA from ffmpeg, so the shared
+ * analysis pipeline sees the same SampledFrame shape as in the browser.
+ */
+
+import { spawn } from 'child_process';
+import { SampledFrame, VideoMetadata } from '../../src/types';
+import type { FrameSource } from '../../src/utils/frameSource';
+import { FFMPEG_PATH, FFPROBE_PATH } from './config';
+
+/**
+ * Run a command and collect its stdout
+ */
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', error => reject(new Error(`Could not run ${command}: ${error.message}`)));
+    child.on('close', code => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split('\n').pop()}`));
+    });
+  });
+}
+
+/**
+ * "30000/1001" -> 29.97
+ */
+function parseRate(rate: string | undefined): number {
+  const [num, den] = (rate ?? '').split('/').map(Number);
+  return num > 0 && den > 0 ? Math.round((num / den) * 1000) / 1000 : 0;
+}
+
+export async function probeVideo(file: string): Promise<VideoMetadata> {
+  const output = await run(FFPROBE_PATH, [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height,avg_frame_rate,r_frame_rate,nb_frames,duration:format=duration',
+    '-of', 'json',
+    file,
+  ]);
+  const { streams = [], format = {} } = JSON.parse(output);
+  const stream = streams[0];
+  if (!stream?.width || !stream?.height) {
+    throw new Error('No video stream found');
+  }
+
+  const frameRate = parseRate(stream.avg_frame_rate) || parseRate(stream.r_frame_rate) || 30;
+  const duration = Number(stream.duration) || Number(format.duration) || 0;
+  if (duration === 0) {
+    throw new Error('Unable to read video duration');
+  }
+
+  return {
+    duration,
+    width: stream.width,
+    height: stream.height,
+    frameRate,
+    totalFrames: Number(stream.nb_frames) || Math.max(1, Math.floor(duration * frameRate)),
+  };
+}
+
+/**
+ * Open an uploaded video for sampled frame reading
+ */
+export async function openVideoSource(file: string): Promise<Pick<FrameSource, 'metadata' | 'frames'>> {
+  const metadata = await probeVideo(file);
+  const { width, height, frameRate } = metadata;
+  const frameBytes = width * height * 4;
+  console.log(`[frames] ${file}: ${width}x${height}, ${frameRate} fps, ${metadata.duration.toFixed(2)}s`);
+
+  async function* frames(frameSkip: number, maxFrames: number): AsyncGenerator<SampledFrame> {
+    const ffmpeg = spawn(FFMPEG_PATH, [
+      '-v', 'error',
+      '-i', file,
+      '-vf', `select=not(mod(n\\,${frameSkip}))`,
+      '-fps_mode', 'passthrough',
+      '-frames:v', String(maxFrames),
+      '-f', 'rawvideo',
+      '-pix_fmt', 'rgba',
+      'pipe:1',
+    ]);
+    let failure = '';
+    ffmpeg.on('error', error => { failure = `Could not run ${FFMPEG_PATH}: ${error.message}`; });
+    ffmpeg.stderr.on('data', chunk => { failure ||= String(chunk).trim(); });
+
+    // Chunks are copied into a frame-sized buffer until each frame is complete
+    let data = new Uint8ClampedArray(frameBytes);
+    let filled = 0;
+    let sampled = 0;
+    try {
+      for await (const chunk of ffmpeg.stdout as AsyncIterable<Buffer>) {
+        let offset = 0;
+        while (offset < chunk.length) {
+          const take = Math.min(frameBytes - filled, chunk.length - offset);
+          data.set(chunk.subarray(offset, offset + take), filled);
+          filled += take;
+          offset += take;
+          if (filled < frameBytes) continue;
+
+          const frameIndex = sampled * frameSkip;
+          sampled++;
+          yield {
+            frameIndex,
+            timestamp: frameIndex / frameRate,
+            width,
+            height,
+            // Node has no ImageData; the pipeline only reads these fields
+            pixels: { data, width, height, colorSpace: 'srgb' } as ImageData,
+          };
+          data = new Uint8ClampedArray(frameBytes);
+          filled = 0;
+        }
+      }
+      if (sampled === 0) throw new Error(failure || 'No frames could be decoded');
+    } finally {
+      if (ffmpeg.exitCode === null) ffmpeg.kill();
+    }
+  }
+
+  return { metadata, frames };
+}
@@ -1,60 +1,289 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FileUp } from 'lucide-react';
 import { Sidebar } from './components/Sidebar';
 import { MapView } from './components/MapView';
 import { ResultsPanel, HistoryPanel } from './components/ResultsPanel';
 import { LoadingOverlay } from './components/LoadingOverlay';
-import { analyzeVideo } from './utils/analysis';
-import { RiskAnalysis, LocationResult } from './types';
+import { AnalysisResult, describeProgress, rescoreAnalysis } from './utils/analysis';
+import { BackgroundAnalysisOptions, analyzeInBackground } from './utils/analysisClient';
+import { checkBackendHealth, getAnalysis, getAnalysisHistory, updateAnalysisLocation, uploadForAnalysis } from './utils/api';
+import { ChunkedUpload } from './utils/chunkedUpload';
+import { describeDetector, DEFAULT_DETECTOR_CONFIG } from './utils/detectors';
+import { coordinateLabel, reverseGeocode } from './utils/geocode';
+import { Mp4Metadata, readMp4Metadata } from './utils/mp4Metadata';
+import { BUILT_IN_RISK_MODELS, DEFAULT_RISK_MODEL, findRiskModel, loadCustomRiskModels, saveCustomRiskModels } from './utils/riskProfiles';
+import { findZoneSetNear, saveZoneSet } from './utils/zones';
+import { createBatchQueue } from './utils/batchQueue';
+import { loadAnalyses, saveAnalysis } from './utils/storage';
+import { importAnalyses } from './utils/exportImport';
+import { RiskAnalysis, LocationResult, LocationSource, DetectorConfig, RiskModelConfig, Zone, ZoneSet, AnalysisProgress, AnalysisLogEntry, BatchJob } from './types';
+import { fromAnalysisResponse } from './types/schema';
+
+/**
+ * Turn a finished pipeline run into a map entry
+ */
+function toRiskAnalysis(
+  id: string,
+  result: AnalysisResult,
+  file: File,
+  location: LocationResult,
+  locationName: string,
+  zones: Zone[],
+  embedded: Mp4Metadata | null
+): RiskAnalysis {
+  return {
+    id,
+    locationName,
+    lat: location.lat,
+    lon: location.lon,
+    riskLevel: result.riskLevel,
+    riskScore: result.riskScore,
+    aggregation: result.aggregation,
+    timestamp: new Date(),
+    videoName: file.name,
+    violations: result.violations,
+    incidents: result.incidents,
+    frameStats: result.frameStats,
+    tracks: result.tracks,
+    frames: result.frames,
+    riskModel: result.riskModel,
+    zones,
+    video: result.video,
+    detector: result.detector,
+    seed: result.seed,
+    isValidStreetFootage: result.isValidStreetFootage,
+    ...embeddedFields(embedded)
+  };
+}
+
+/**
+ * Recording time and route from the clip's metadata, as stored on an analysis
+ */
+function embeddedFields(embedded: Mp4Metadata | null): Pick<RiskAnalysis, 'recordedAt' | 'gpsTrack'> {
+  return {
+    recordedAt: embedded?.recordedAt?.toISOString(),
+    gpsTrack: embedded?.gpsTrack.length ? embedded.gpsTrack : undefined,
+  };
+}
+
+/**
+ * Metadata of a clip; footage without readable metadata simply has none
+ */
+async function readClipMetadata(file: File): Promise<Mp4Metadata | null> {
+  try {
+    return await readMp4Metadata(file);
+  } catch (error) {
+    console.warn(`[App] No metadata read from ${file.name}:`, error);
+    return null;
+  }
+}
+
+// Progress reporting for one clip; everything but onProgress is optional
+interface ClipHooks {
+  onProgress: (percent: number, detail: AnalysisProgress | null) => void;
+  onLog?: (entry: AnalysisLogEntry) => void;
+  onUpload?: (upload: ChunkedUpload) => void;
+}
+
+/**
+ * Analyse a clip on the backend when it is reachable, otherwise in the browser
+ * The server runs the simulated detector; the frame-by-frame YOLO service and
+ * the ONNX model (a file picked in this browser) keep the browser pipeline
+ */
+async function analyzeClip(
+  localId: string,
+  file: File,
+  location: LocationResult,
+  locationName: string,
+  embedded: Mp4Metadata | null,
+  options: BackgroundAnalysisOptions,
+  useBackend: boolean,
+  { onProgress, onLog, onUpload }: ClipHooks
+): Promise<{ analysis: RiskAnalysis; isValidStreetFootage: boolean; onServer: boolean }> {
+  const zones = options.zones ?? [];
+  if (useBackend && options.detectorConfig.kind === 'simulated') {
+    const request = {
+      video: file, locationName, lat: location.lat, lon: location.lon,
+      seed: options.seed, riskModel: options.riskModel, zones, ...embeddedFields(embedded),
+    };
+    const response = await uploadForAnalysis(request, { onProgress, onLog, onUpload, signal: options.signal });
+    const analysis = fromAnalysisResponse(response);
+    return { analysis, isValidStreetFootage: analysis.isValidStreetFootage !== false, onServer: true };
+  }
+
+  // The browser run logs the same lines the server streams
+  let previous: AnalysisProgress | null = null;
+  const result = await analyzeInBackground(file, p => {
+    const line = describeProgress(p, previous);
+    if (line) onLog?.({ time: new Date().toISOString(), level: 'info', message: line });
+    previous = p;
+    onProgress(p.percent, p);
+  }, options);
+  return {
+    analysis: toRiskAnalysis(localId, result, file, location, locationName, zones, embedded),
+    isValidStreetFootage: result.isValidStreetFootage,
+    onServer: false,
+  };
+}
+
+// Lines kept in the loading overlay's log
+const MAX_LOG_LINES = 50;
+
+/**
+ * Save to local history; a failed write only loses persistence, not the result
+ */
+function persistAnalysis(analysis: RiskAnalysis) {
+  saveAnalysis(analysis).catch(error => console.error('[App] Could not save analysis:', error));
+}
 
 export function App() {
   // State
   const [locationName, setLocationName] = useState('');
   const [selectedLocation, setSelectedLocation] = useState<LocationResult | null>(null);
+  const selectedLocationRef = useRef(selectedLocation);
+  selectedLocationRef.current = selectedLocation;
   const [videoFile, setVideoFile] = useState<File | null>(null);
+  // Recording time and GPS read from the chosen clip
+  const [clipMetadata, setClipMetadata] = useState<Mp4Metadata | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressDetail, setProgressDetail] = useState<AnalysisProgress | null>(null);
+  const [progressLog, setProgressLog] = useState<AnalysisLogEntry[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  // Backend upload of the running analysis, while it can be paused
+  const uploadRef = useRef<ChunkedUpload | null>(null);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
   const [analyses, setAnalyses] = useState<RiskAnalysis[]>([]);
   const [currentAnalysis, setCurrentAnalysis] = useState<RiskAnalysis | null>(null);
   const [errorMessage, setErrorMessage] = useState('');
+  const [detectorConfig, setDetectorConfig] = useState<DetectorConfig>(DEFAULT_DETECTOR_CONFIG);
+  const [seedOverride, setSeedOverride] = useState<number | null>(null);
+  const [riskModels, setRiskModels] = useState<RiskModelConfig[]>(() => [...BUILT_IN_RISK_MODELS, ...loadCustomRiskModels()]);
+  const [riskModelId, setRiskModelId] = useState(DEFAULT_RISK_MODEL.id);
+  const [zoneSet, setZoneSet] = useState<ZoneSet | null>(null);
+  // Set once the backend answers its health check; analysis then runs there
+  const [backendAvailable, setBackendAvailable] = useState(false);
+  // The server's /api/detect has a model, so the backend detector can be offered
+  const [backendDetection, setBackendDetection] = useState(false);
+  // Uploaded clips by analysis id, kept for annotated playback this session
+  const [videoFiles, setVideoFiles] = useState<Map<string, File>>(new Map());
+  // Ids of analyses stored on the backend; the rest exist only in this browser
+  const serverIdsRef = useRef(new Set<string>());
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState('');
+  const detectorLabel = backendAvailable && detectorConfig.kind === 'simulated'
+    ? `${describeDetector(detectorConfig)} (server)`
+    : describeDetector(detectorConfig);
   
   // Map state - default center is India (matching Python app)
   const [mapCenter, setMapCenter] = useState<[number, number]>([20.5937, 78.9629]);
   const [mapZoom, setMapZoom] = useState(4);
 
+  // Restore history saved in earlier sessions; a saved record replaces the
+  // server's summary of it, keeping frames, rescores and moves made here
+  useEffect(() => {
+    loadAnalyses()
+      .then(saved => setAnalyses(prev => {
+        const savedById = new Map(saved.map(a => [a.id, a]));
+        return [...saved.filter(a => !prev.some(p => p.id === a.id)), ...prev.map(a => savedById.get(a.id) ?? a)];
+      }))
+      .catch(error => console.error('[App] Could not load saved analyses:', error));
+  }, []);
+
+  // Checked at start and before each analysis, so a server that went down
+  // is not used and one that came up is
+  const refreshBackend = useCallback(async () => {
+    const health = await checkBackendHealth();
+    setBackendAvailable(health !== null);
+    setBackendDetection(health?.detection ?? false);
+    if (!health?.detection) {
+      setDetectorConfig(config => (config.kind === 'backend' ? { kind: 'simulated' } : config));
+    }
+    return health;
+  }, []);
+
+  // Use the backend when it is up, and pull in results stored there
+  useEffect(() => {
+    refreshBackend().then(async (health) => {
+      if (!health) {
+        console.log('[App] Backend unavailable, analysing in the browser');
+        return;
+      }
+      try {
+        const remote = (await getAnalysisHistory()).map(response => fromAnalysisResponse(response));
+        remote.forEach(a => serverIdsRef.current.add(a.id));
+        setAnalyses(prev => [...prev, ...remote.filter(a => !prev.some(p => p.id === a.id))]);
+      } catch (error) {
+        console.error('[App] Could not load backend history:', error);
+      }
+    });
+  }, []);
+
+  // Read where and when the chosen clip was recorded; its position fills
+  // in the location unless one was already chosen
+  useEffect(() => {
+    setClipMetadata(null);
+    if (!videoFile) return;
+    let current = true;
+    readClipMetadata(videoFile).then(metadata => {
+      if (!current || !metadata) return;
+      setClipMetadata(metadata);
+      if (metadata.location && !selectedLocationRef.current) {
+        handlePickLocation(metadata.location.lat, metadata.location.lon, 'video');
+        setMapCenter([metadata.location.lat, metadata.location.lon]);
+        setMapZoom(16);
+      }
+    });
+    return () => { current = false; };
+  }, [videoFile]);
+
+  // Reuse zones drawn earlier for the same camera
+  useEffect(() => {
+    setZoneSet(selectedLocation ? findZoneSetNear(selectedLocation.lat, selectedLocation.lon) : null);
+  }, [selectedLocation]);
+
   const handleAnalyze = useCallback(async () => {
     if (!videoFile || !selectedLocation) return;
     
     setIsAnalyzing(true);
     setProgress(0);
+    setProgressLog([]);
     setErrorMessage('');
     
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      // Run the analysis pipeline (converted from Python analysis.py)
-      const result = await analyzeVideo(videoFile, setProgress);
+      // Run the analysis pipeline (converted from Python analysis.py) in a worker
+      // The simulated pipeline is seeded from the file content unless the user set one
+      const riskModel = findRiskModel(riskModels, riskModelId);
+      const zones = zoneSet?.zones ?? [];
+      const { analysis: newAnalysis, isValidStreetFootage, onServer } = await analyzeClip(
+        Date.now().toString(),
+        videoFile,
+        selectedLocation,
+        locationName || selectedLocation.displayName.split(',')[0],
+        clipMetadata,
+        { detectorConfig, seed: seedOverride ?? undefined, riskModel, zones, signal: controller.signal },
+        (await refreshBackend()) !== null,
+        {
+          onProgress: (percent, detail) => { setProgress(percent); setProgressDetail(detail); },
+          onLog: entry => setProgressLog(prev => [...prev.slice(-(MAX_LOG_LINES - 1)), entry]),
+          onUpload: upload => { uploadRef.current = upload; },
+        }
+      );
       
       // Check if valid street footage
-      if (!result.isValidStreetFootage) {
+      if (!isValidStreetFootage) {
         setErrorMessage('This is not a footage of street or road. Please upload traffic/street footage.');
         setVideoFile(null);
         setIsAnalyzing(false);
         return;
       }
       
-      const newAnalysis: RiskAnalysis = {
-        id: Date.now().toString(),
-        locationName: locationName || selectedLocation.displayName.split(',')[0],
-        lat: selectedLocation.lat,
-        lon: selectedLocation.lon,
-        riskLevel: result.riskLevel,
-        riskScore: result.riskScore,
-        timestamp: new Date(),
-        videoName: videoFile.name,
-        violations: result.violations,
-        frameStats: result.frameStats,
-        isValidStreetFootage: result.isValidStreetFootage
-      };
-      
+      if (onServer) serverIdsRef.current.add(newAnalysis.id);
       setAnalyses(prev => [...prev, newAnalysis]);
+      persistAnalysis(newAnalysis);
+      setVideoFiles(prev => new Map(prev).set(newAnalysis.id, videoFile));
       setCurrentAnalysis(newAnalysis);
       setMapCenter([selectedLocation.lat, selectedLocation.lon]);
       setMapZoom(16);
@@ -64,18 +293,144 @@ export function App() {
       setLocationName('');
       setSelectedLocation(null);
     } catch (error) {
+      // Cancelled by the user: keep the form so they can adjust and retry
+      if ((error as Error).name === 'AbortError') return;
       console.error('[App] Analysis failed:', error);
       setErrorMessage('Analysis failed. Please try again.');
     } finally {
+      abortRef.current = null;
+      uploadRef.current = null;
       setIsAnalyzing(false);
       setProgress(0);
+      setProgressDetail(null);
     }
-  }, [videoFile, selectedLocation, locationName]);
+  }, [videoFile, selectedLocation, locationName, detectorConfig, seedOverride, riskModels, riskModelId, zoneSet, refreshBackend, clipMetadata]);
+
+  // Batch jobs use the detector, seed and profile selected when they start
+  const runBatchJob = async (job: BatchJob, onProgress: (progress: number) => void, signal: AbortSignal) => {
+    const location = job.location!;
+    const zones = findZoneSetNear(location.lat, location.lon)?.zones ?? [];
+    const { analysis, isValidStreetFootage, onServer } = await analyzeClip(
+      `${Date.now()}-${job.id}`,
+      job.file,
+      location,
+      location.displayName.split(',')[0],
+      await readClipMetadata(job.file),
+      { detectorConfig, seed: seedOverride ?? undefined, riskModel: findRiskModel(riskModels, riskModelId), zones, signal },
+      (await refreshBackend()) !== null,
+      { onProgress: percent => onProgress(percent) }
+    );
+    if (!isValidStreetFootage) {
+      throw new Error('Not street or road footage');
+    }
+    
+    if (onServer) serverIdsRef.current.add(analysis.id);
+    setAnalyses(prev => [...prev, analysis]);
+    persistAnalysis(analysis);
+    setVideoFiles(prev => new Map(prev).set(analysis.id, job.file));
+    return analysis.id;
+  };
+  const runBatchJobRef = useRef(runBatchJob);
+  runBatchJobRef.current = runBatchJob;
+  const [batchQueue] = useState(() => createBatchQueue({
+    run: (job, onProgress, signal) => runBatchJobRef.current(job, onProgress, signal),
+    onChange: setBatchJobs
+  }));
+
+  const handleOpenAnalysis = (analysisId: string) => {
+    const analysis = analyses.find(a => a.id === analysisId);
+    if (analysis) handleSelectAnalysis(analysis);
+  };
+
+  const handleCancelAnalysis = () => {
+    abortRef.current?.abort();
+  };
+
+  const handlePauseUpload = () => uploadRef.current?.pause();
+  const handleResumeUpload = () => uploadRef.current?.resume();
+
+  const handleSaveZoneSet = (saved: ZoneSet) => {
+    saveZoneSet(saved);
+    setZoneSet(saved);
+  };
+
+  const handleSaveRiskModels = (models: RiskModelConfig[]) => {
+    saveCustomRiskModels(models);
+    setRiskModels(models);
+  };
+
+  // Re-score an existing analysis under another profile without re-running detection
+  const handleRescore = (analysis: RiskAnalysis, modelId: string) => {
+    const rescored = rescoreAnalysis(analysis, findRiskModel(riskModels, modelId));
+    setAnalyses(prev => prev.map(a => (a.id === rescored.id ? rescored : a)));
+    persistAnalysis(rescored);
+    setCurrentAnalysis(rescored);
+  };
+
+  // Merge a JSON or GeoJSON export into history, skipping IDs already present
+  const handleImportFile = async (file: File) => {
+    try {
+      const { added, duplicates, errors } = importAnalyses(await file.text(), analyses);
+      setAnalyses(prev => [...prev, ...added.filter(a => !prev.some(p => p.id === a.id))]);
+      added.forEach(persistAnalysis);
+      const parts = [`Imported ${added.length}`];
+      if (duplicates > 0) parts.push(`skipped ${duplicates} duplicate${duplicates !== 1 ? 's' : ''}`);
+      if (errors.length > 0) parts.push(`${errors.length} invalid`);
+      setImportMessage(parts.join(', '));
+      if (errors.length > 0) console.warn('[App] Import problems:', errors);
+    } catch (error) {
+      console.error('[App] Import failed:', error);
+      setImportMessage('Import failed');
+    }
+  };
+
+  // A point picked on the map is usable at once; its address follows when the geocoder answers
+  const handlePickLocation = (lat: number, lon: number, source?: LocationSource) => {
+    const label = coordinateLabel(lat, lon);
+    setSelectedLocation({ lat, lon, displayName: label, source });
+    setLocationName(label);
+    reverseGeocode(lat, lon, 'pick')
+      .then(address => {
+        if (!address) return;
+        // Ignore the answer if the pin has moved on since
+        const named = source ? { ...address, source } : address;
+        setSelectedLocation(current => (current?.lat === lat && current.lon === lon ? named : current));
+        setLocationName(current => (current === label ? address.displayName.split(',')[0] : current));
+      })
+      .catch(error => {
+        if ((error as Error).name !== 'AbortError') console.warn('[App] Reverse geocoding failed, using coordinates:', error);
+      });
+  };
+
+  // Save corrected coordinates locally and, for results stored there, on the backend
+  const handleMoveAnalysis = (analysis: RiskAnalysis, lat: number, lon: number) => {
+    const moved = { ...analysis, lat, lon };
+    setAnalyses(prev => prev.map(a => (a.id === moved.id ? { ...a, lat, lon } : a)));
+    setCurrentAnalysis(current => (current?.id === moved.id ? { ...current, lat, lon } : current));
+    persistAnalysis(moved);
+    if (backendAvailable && serverIdsRef.current.has(analysis.id)) {
+      updateAnalysisLocation(analysis.id, lat, lon)
+        .then(saved => { if (!saved) console.warn(`[App] Analysis ${analysis.id} is no longer on the server`); })
+        .catch(error => console.error('[App] Could not save the new location on the server:', error));
+    }
+  };
 
   const handleSelectAnalysis = (analysis: RiskAnalysis) => {
     setCurrentAnalysis(analysis);
     setMapCenter([analysis.lat, analysis.lon]);
     setMapZoom(16);
+
+    // Backend history comes without per-frame data; fetch it when opened
+    if (backendAvailable && !analysis.frames && serverIdsRef.current.has(analysis.id)) {
+      getAnalysis(analysis.id)
+        .then(response => {
+          const full = fromAnalysisResponse(response);
+          setAnalyses(prev => prev.map(a => (a.id === full.id ? full : a)));
+          setCurrentAnalysis(current => (current?.id === full.id ? full : current));
+          persistAnalysis(full);
+        })
+        .catch(error => console.warn('[App] Could not load analysis details:', error));
+    }
   };
 
   return (
@@ -88,11 +443,26 @@ export function App() {
         setSelectedLocation={setSelectedLocation}
         videoFile={videoFile}
         setVideoFile={setVideoFile}
+        clipMetadata={clipMetadata}
         onAnalyze={handleAnalyze}
         isAnalyzing={isAnalyzing}
         progress={progress}
         errorMessage={errorMessage}
         setErrorMessage={setErrorMessage}
+        detectorConfig={detectorConfig}
+        setDetectorConfig={setDetectorConfig}
+        backendDetection={backendDetection}
+        seedOverride={seedOverride}
+        setSeedOverride={setSeedOverride}
+        riskModels={riskModels}
+        riskModelId={riskModelId}
+        setRiskModelId={setRiskModelId}
+        onSaveRiskModels={handleSaveRiskModels}
+        zoneSet={zoneSet}
+        onSaveZoneSet={handleSaveZoneSet}
+        batchJobs={batchJobs}
+        batchQueue={batchQueue}
+        onOpenAnalysis={handleOpenAnalysis}
       />
       
       {/* Main Map Area */}
@@ -102,6 +472,9 @@ export function App() {
           center={mapCenter}
           zoom={mapZoom}
           analyses={analyses}
+          selectedLocation={selectedLocation}
+          onPickLocation={isAnalyzing ? undefined : handlePickLocation}
+          onMoveAnalysis={handleMoveAnalysis}
         />
         
         {/* Overlay Gradient for depth effect */}
@@ -122,7 +495,26 @@ export function App() {
                   : `${analyses.length} location${analyses.length !== 1 ? 's' : ''} analyzed`
                 }
               </p>
+              {importMessage && <p className="text-xs text-cyan-400 truncate">{importMessage}</p>}
             </div>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              title="Import analyses (JSON or GeoJSON)"
+              className="flex-shrink-0 p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            >
+              <FileUp className="w-4 h-4" />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.geojson,application/json,application/geo+json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
           </div>
         </div>
         
@@ -132,23 +524,38 @@ export function App() {
           <span>to zoom</span>
           <kbd className="px-2 py-1 bg-slate-800/80 rounded ml-2">Drag</kbd>
           <span>to pan</span>
+          <kbd className="px-2 py-1 bg-slate-800/80 rounded ml-2">Click</kbd>
+          <span>to pin location</span>
         </div>
         
-        {/* Results Panel */}
+        {/* Results Panel - keyed so a seek never carries over to another analysis */}
         {currentAnalysis && (
           <ResultsPanel
+            key={currentAnalysis.id}
             analysis={currentAnalysis}
+            videoFile={videoFiles.get(currentAnalysis.id) ?? null}
+            riskModels={riskModels}
+            onRescore={(modelId) => handleRescore(currentAnalysis, modelId)}
             onClose={() => setCurrentAnalysis(null)}
           />
         )}
         
         {/* History Panel - shows when no analysis is selected */}
         {analyses.length > 0 && !currentAnalysis && (
-          <HistoryPanel analyses={analyses} onSelect={handleSelectAnalysis} />
+          <HistoryPanel analyses={analyses} videoFiles={videoFiles} onSelect={handleSelectAnalysis} />
         )}
         
         {/* Loading Overlay */}
-        <LoadingOverlay progress={progress} isVisible={isAnalyzing} />
+        <LoadingOverlay
+          progress={progress}
+          detail={progressDetail}
+          log={progressLog}
+          isVisible={isAnalyzing}
+          detectorLabel={detectorLabel}
+          onCancel={handleCancelAnalysis}
+          onPauseUpload={handlePauseUpload}
+          onResumeUpload={handleResumeUpload}
+        />
         
         {/* Empty State */}
         {analyses.length === 0 && !isAnalyzing && (
@@ -161,7 +568,7 @@ export function App() {
                   </svg>
                 </div>
                 <div className="absolute -bottom-2 left-1/2 -translate-x-1/2 px-3 py-1 bg-slate-800 rounded-full border border-slate-700/50">
-                  <span className="text-xs text-slate-400 font-medium">YOLOv8 Ready</span>
+                  <span className="text-xs text-slate-400 font-medium whitespace-nowrap">{detectorLabel} Ready</span>
                 </div>
               </div>
               <div>
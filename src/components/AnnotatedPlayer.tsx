@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from 'react';
+import { Film } from 'lucide-react';
+import { Detection, FrameAnalysis, PERSON_CLASSES, VEHICLE_CLASSES, VideoMetadata } from '../types';
+
+interface AnnotatedPlayerProps {
+  file: File;
+  frames: FrameAnalysis[];
+  video: VideoMetadata;
+  seekTo?: { time: number }; // a new object seeks again, even to the same time
+}
+
+const COLORS = {
+  vehicle: '#22d3ee',
+  person: '#c084fc',
+  other: '#94a3b8',
+  overlap: '#ef4444',
+  proximity: '#f59e0b',
+  conflict: '#ef4444',
+};
+
+function classColor(detection: Detection): string {
+  if (VEHICLE_CLASSES.includes(detection.className)) return COLORS.vehicle;
+  if (PERSON_CLASSES.includes(detection.className)) return COLORS.person;
+  return COLORS.other;
+}
+
+/**
+ * Processed frame shown at a playback time: the latest one at or before it,
+ * as long as the next sample has not been reached
+ */
+function frameAt(frames: FrameAnalysis[], time: number): FrameAnalysis | null {
+  let shown: FrameAnalysis | null = null;
+  for (const frame of frames) {
+    if (frame.timestamp > time + 1e-3) break;
+    shown = frame;
+  }
+  return shown;
+}
+
+/**
+ * Draw one frame's boxes, labels and highlighted incident pairs
+ */
+function drawOverlay(ctx: CanvasRenderingContext2D, frame: FrameAnalysis, scaleX: number, scaleY: number) {
+  const { detections } = frame;
+  const box = (d: Detection) => {
+    const [x1, y1, x2, y2] = d.bbox;
+    return { x: x1 * scaleX, y: y1 * scaleY, w: (x2 - x1) * scaleX, h: (y2 - y1) * scaleY };
+  };
+  const centerOf = (d: Detection): [number, number] => [d.center[0] * scaleX, d.center[1] * scaleY];
+
+  const overlapping = new Set(frame.overlapPairs.flat());
+  const proximate = new Set(frame.proximityPairs.flat());
+  const byTrack = new Map(detections.filter(d => d.trackId !== undefined).map(d => [d.trackId!, d]));
+
+  ctx.font = '11px ui-sans-serif, system-ui, sans-serif';
+  ctx.textBaseline = 'bottom';
+
+  detections.forEach((d, i) => {
+    const { x, y, w, h } = box(d);
+    const color = overlapping.has(i) ? COLORS.overlap : proximate.has(i) ? COLORS.proximity : classColor(d);
+    const emphasised = overlapping.has(i) || proximate.has(i);
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = emphasised ? 3 : 1.5;
+    ctx.strokeRect(x, y, w, h);
+
+    const label = `${d.className}${d.trackId !== undefined ? ` #${d.trackId}` : ''} ${(d.confidence * 100).toFixed(0)}%`
+      + (d.signalState ? ` ${d.signalState}` : '');
+    const textWidth = ctx.measureText(label).width + 6;
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y - 14, textWidth, 14);
+    ctx.fillStyle = '#0f172a';
+    ctx.fillText(label, x + 3, y - 2);
+  });
+
+  // Vehicle-person proximity links
+  ctx.setLineDash([]);
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = COLORS.proximity;
+  for (const [v, p] of frame.proximityPairs) {
+    const [ax, ay] = centerOf(detections[v]);
+    const [bx, by] = centerOf(detections[p]);
+    ctx.beginPath();
+    ctx.moveTo(ax, ay);
+    ctx.lineTo(bx, by);
+    ctx.stroke();
+  }
+
+  // Trajectory conflicts (TTC/PET)
+  ctx.setLineDash([6, 4]);
+  ctx.strokeStyle = COLORS.conflict;
+  for (const pair of frame.conflictPairs) {
+    const a = byTrack.get(pair.trackIds[0]);
+    const b = byTrack.get(pair.trackIds[1]);
+    if (!a || !b) continue;
+    const [ax, ay] = centerOf(a);
+    const [bx, by] = centerOf(b);
+    ctx.beginPath();
+    ctx.moveTo(ax, ay);
+    ctx.lineTo(bx, by);
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+}
+
+export function AnnotatedPlayer({ file, frames, video, seekTo }: AnnotatedPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [current, setCurrent] = useState<FrameAnalysis | null>(null);
+  const [url, setUrl] = useState<string | undefined>();
+
+  // Created and revoked in one effect, so StrictMode's extra cleanup cannot leave a revoked URL behind
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !seekTo) return;
+    element.pause();
+    element.currentTime = seekTo.time;
+    element.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [seekTo]);
+
+  // Redraw on every painted video frame while playing, and after seeks
+  useEffect(() => {
+    const element = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!element || !canvas) return;
+
+    let handle = 0;
+    const render = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const { clientWidth, clientHeight } = element;
+      if (canvas.width !== clientWidth || canvas.height !== clientHeight) {
+        canvas.width = clientWidth;
+        canvas.height = clientHeight;
+      }
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const frame = frameAt(frames, element.currentTime);
+      setCurrent(prev => (prev === frame ? prev : frame));
+      if (frame) drawOverlay(ctx, frame, canvas.width / video.width, canvas.height / video.height);
+    };
+    const loop = () => {
+      render();
+      if (!element.paused && !element.ended) handle = requestAnimationFrame(loop);
+    };
+
+    element.addEventListener('play', loop);
+    element.addEventListener('seeked', render);
+    element.addEventListener('loadeddata', render);
+    window.addEventListener('resize', render);
+    return () => {
+      cancelAnimationFrame(handle);
+      element.removeEventListener('play', loop);
+      element.removeEventListener('seeked', render);
+      element.removeEventListener('loadeddata', render);
+      window.removeEventListener('resize', render);
+    };
+  }, [frames, video]);
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-800/40 overflow-hidden">
+      <div className="px-3 py-2 flex items-center justify-between border-b border-slate-700/50">
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Film className="w-3.5 h-3.5" /> Annotated Playback
+        </span>
+        {current && (
+          <span className="text-[11px] text-slate-400">
+            Frame #{current.frameIndex} · score <b className="text-white">{current.score}</b>
+          </span>
+        )}
+      </div>
+      <div className="relative bg-black" style={{ aspectRatio: `${video.width} / ${video.height}` }}>
+        <video ref={videoRef} src={url} controls playsInline muted className="absolute inset-0 w-full h-full" />
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      </div>
+      <div className="px-3 py-2 flex flex-wrap gap-3 text-[10px] text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 border-2" style={{ borderColor: COLORS.vehicle }} /> Vehicle</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 border-2" style={{ borderColor: COLORS.person }} /> Person</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 border-2" style={{ borderColor: COLORS.overlap }} /> Overlap / conflict</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 border-2" style={{ borderColor: COLORS.proximity }} /> Pedestrian proximity</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { CheckCircle2, Loader2, MapPin, RotateCcw, X, AlertCircle, Clock, Layers } from 'lucide-react';
+import { BatchJob, BatchJobStatus, LocationResult } from '../types';
+import { BatchQueue } from '../utils/batchQueue';
+
+interface BatchQueuePanelProps {
+  jobs: BatchJob[];
+  queue: BatchQueue;
+  selectedLocation: LocationResult | null;
+  onOpenAnalysis: (analysisId: string) => void;
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, { icon: typeof Clock; text: string; label: string }> = {
+  queued: { icon: Clock, text: 'text-slate-400', label: 'Queued' },
+  running: { icon: Loader2, text: 'text-cyan-400', label: 'Running' },
+  done: { icon: CheckCircle2, text: 'text-emerald-400', label: 'Done' },
+  failed: { icon: AlertCircle, text: 'text-red-400', label: 'Failed' },
+};
+
+export function BatchQueuePanel({ jobs, queue, selectedLocation, onOpenAnalysis }: BatchQueuePanelProps) {
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(j => j.status === 'done').length;
+
+  return (
+    <div className="rounded-xl border border-slate-700/50 bg-slate-800/30 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-700/50">
+        <span className="text-xs font-semibold text-slate-300 flex items-center gap-2">
+          <Layers className="w-3.5 h-3.5" /> Batch Queue
+          <span className="text-slate-500 font-normal">{finished}/{jobs.length} done</span>
+        </span>
+        {finished > 0 && (
+          <button onClick={() => queue.clearFinished()} className="text-xs text-slate-500 hover:text-white">
+            Clear done
+          </button>
+        )}
+      </div>
+
+      <div className="max-h-72 overflow-y-auto divide-y divide-slate-700/40">
+        {jobs.map(job => {
+          const style = STATUS_STYLES[job.status];
+          const Icon = style.icon;
+          return (
+            <div key={job.id} className="px-4 py-2.5 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Icon className={`w-3.5 h-3.5 flex-shrink-0 ${style.text} ${job.status === 'running' ? 'animate-spin' : ''}`} />
+                <button
+                  onClick={() => job.analysisId && onOpenAnalysis(job.analysisId)}
+                  disabled={!job.analysisId}
+                  className="flex-1 min-w-0 text-left text-xs text-white truncate enabled:hover:underline"
+                  title={job.file.name}
+                >
+                  {job.file.name}
+                </button>
+                {job.status === 'failed' && (
+                  <button onClick={() => queue.retry(job.id)} title="Retry" className="text-slate-400 hover:text-white">
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {job.status !== 'done' && (
+                  <button
+                    onClick={() => queue.cancel(job.id)}
+                    title={job.status === 'running' ? 'Cancel' : 'Remove from queue'}
+                    className="text-slate-400 hover:text-red-400"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2 pl-5.5 text-[11px]">
+                {job.location ? (
+                  <span className="flex-1 min-w-0 text-slate-500 truncate flex items-center gap-1">
+                    <MapPin className="w-3 h-3 flex-shrink-0" /> {job.location.displayName.split(',')[0]}
+                  </span>
+                ) : (
+                  <span className="flex-1 text-orange-400">Waiting for a location</span>
+                )}
+                {job.status === 'queued' && selectedLocation && (
+                  <button
+                    onClick={() => queue.setLocation(job.id, selectedLocation)}
+                    className="text-cyan-400 hover:text-cyan-300 flex-shrink-0"
+                    title={selectedLocation.displayName}
+                  >
+                    {job.location ? 'Use selected' : 'Assign selected'}
+                  </button>
+                )}
+                <span className={`flex-shrink-0 ${style.text}`}>
+                  {job.status === 'running' ? `${job.progress}%` : job.status === 'failed' ? job.error : style.label}
+                </span>
+              </div>
+
+              {job.status === 'running' && (
+                <div className="h-1 bg-slate-700/50 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-red-500 to-orange-500 transition-all" style={{ width: `${job.progress}%` }} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
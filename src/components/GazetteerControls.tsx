@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react';
+import { Database, FileUp, Trash2, Loader2 } from 'lucide-react';
+import { clearGazetteer, loadGazetteer, parseGazetteer, saveGazetteerEntries } from '../utils/gazetteer';
+import { isOfflineModePreferred, setOfflineMode } from '../utils/geocode';
+
+interface GazetteerControlsProps {
+  /** Called after the offline mode or the stored places change */
+  onChange?: () => void;
+}
+
+export function GazetteerControls({ onChange }: GazetteerControlsProps) {
+  const [placeCount, setPlaceCount] = useState<number | null>(null);
+  const [offlineOnly, setOfflineOnly] = useState(isOfflineModePreferred);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState('');
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshCount = () => {
+    loadGazetteer()
+      .then(entries => setPlaceCount(entries.length))
+      .catch(error => {
+        console.warn('[gazetteer] Could not read stored places:', error);
+        setPlaceCount(0);
+      });
+  };
+
+  useEffect(refreshCount, []);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setMessage('');
+    try {
+      const { entries, errors } = parseGazetteer(await file.text(), file.name);
+      if (entries.length > 0) await saveGazetteerEntries(entries);
+      const skipped = errors.length > 0 ? `, skipped ${errors.length} (${errors[0]})` : '';
+      setMessage(`Imported ${entries.length} places${skipped}`);
+      refreshCount();
+      onChange?.();
+    } catch (error) {
+      console.error('[gazetteer] Import failed:', error);
+      setMessage((error as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all offline places?')) return;
+    try {
+      await clearGazetteer();
+      setMessage('');
+      refreshCount();
+      onChange?.();
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  const handleToggleOffline = (enabled: boolean) => {
+    setOfflineMode(enabled);
+    setOfflineOnly(enabled);
+    onChange?.();
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-700/50 bg-slate-800/30 px-4 py-3 space-y-2.5">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-slate-300 flex items-center gap-2">
+          <Database className="w-3.5 h-3.5" /> Offline Places
+          <span className="text-slate-500 font-normal">{placeCount ?? '…'}</span>
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="text-xs text-slate-400 hover:text-white flex items-center gap-1 disabled:opacity-50"
+            title="Import intersections, landmarks or camera sites from CSV or GeoJSON"
+          >
+            {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileUp className="w-3.5 h-3.5" />}
+            Import
+          </button>
+          {!!placeCount && (
+            <button onClick={handleClear} title="Remove all offline places" className="text-slate-500 hover:text-red-400">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.geojson,.json,text/csv,application/geo+json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={offlineOnly}
+          onChange={(e) => handleToggleOffline(e.target.checked)}
+          className="accent-red-500"
+        />
+        Offline search only
+        {!isOnline && !offlineOnly && <span className="text-amber-400">(no connection, using offline places)</span>}
+      </label>
+
+      {message && <p className="text-[11px] text-slate-500">{message}</p>}
+    </div>
+  );
+}
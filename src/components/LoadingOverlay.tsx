@@ -1,13 +1,53 @@
 import { motion } from 'framer-motion';
-import { Cpu, Eye, BarChart3, FileText } from 'lucide-react';
+import { Cpu, Eye, BarChart3, FileText, X, Pause, Play, CloudUpload } from 'lucide-react';
+import { AnalysisLogEntry, AnalysisProgress } from '../types';
 
 interface LoadingOverlayProps {
   progress: number;
   isVisible: boolean;
+  detectorLabel: string;
+  detail?: AnalysisProgress | null;
+  log?: AnalysisLogEntry[];
+  onCancel?: () => void;
+  onPauseUpload?: () => void;
+  onResumeUpload?: () => void;
 }
 
-export function LoadingOverlay({ progress, isVisible }: LoadingOverlayProps) {
+const STAGE_TEXT: Record<AnalysisProgress['stage'], string> = {
+  uploading: 'Uploading',
+  loading: 'Loading detector',
+  detecting: 'Detecting',
+  scoring: 'Scoring frames',
+  done: 'Finishing',
+};
+
+// Overlay step each pipeline stage belongs to
+const STAGE_STEP: Record<AnalysisProgress['stage'], number> = {
+  uploading: 0,
+  loading: 0,
+  detecting: 1,
+  scoring: 2,
+  done: 3,
+};
+
+const LOG_COLORS: Record<AnalysisLogEntry['level'], string> = {
+  info: 'text-slate-400',
+  warn: 'text-amber-400',
+  error: 'text-red-400',
+};
+
+// Log lines visible at once; older ones scroll out
+const VISIBLE_LOG_LINES = 6;
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(bytes < 100 * 1024 * 1024 ? 1 : 0)} MB`;
+}
+
+export function LoadingOverlay({
+  progress, isVisible, detectorLabel, detail, log = [], onCancel, onPauseUpload, onResumeUpload,
+}: LoadingOverlayProps) {
   if (!isVisible) return null;
+  const upload = detail?.upload;
 
   const stages = [
     { icon: Eye, label: 'Frame Extraction', threshold: 0 },
@@ -16,9 +56,10 @@ export function LoadingOverlay({ progress, isVisible }: LoadingOverlayProps) {
     { icon: FileText, label: 'Report Generation', threshold: 90 },
   ];
 
-  const currentStage = stages.reduce((acc, stage, index) => {
-    return progress >= stage.threshold ? index : acc;
-  }, 0);
+  // Follow the reported stage; guess from the percentage only when there is none
+  const currentStage = detail
+    ? STAGE_STEP[detail.stage]
+    : stages.reduce((acc, stage, index) => (progress >= stage.threshold ? index : acc), 0);
 
   return (
     <motion.div
@@ -138,25 +179,78 @@ export function LoadingOverlay({ progress, isVisible }: LoadingOverlayProps) {
             transition={{ duration: 1.5, repeat: Infinity }}
             className="w-2 h-2 bg-red-500 rounded-full"
           />
-          <span>Processing with YOLOv8 object detection model</span>
+          <span>Processing with {detectorLabel}</span>
+          {detail && (
+            <span className="text-slate-400">
+              · {STAGE_TEXT[detail.stage]}
+              {detail.stage === 'detecting' && ` ${detail.processedFrames} of ${detail.plannedFrames} frames`}
+            </span>
+          )}
+          {detail?.interimScore !== undefined && (
+            <span className="text-orange-400 font-medium">· Score so far {detail.interimScore}</span>
+          )}
         </div>
         
-        {/* Simulated detection log */}
-        <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50 font-mono text-xs text-left max-h-24 overflow-hidden">
-          <motion.div
-            animate={{ y: [0, -100] }}
-            transition={{ duration: 10, repeat: Infinity, ease: 'linear' }}
-          >
-            <p className="text-slate-500">[analysis] Frame extraction started...</p>
-            <p className="text-emerald-400">[detection] YOLOv8 model loaded ✓</p>
-            <p className="text-slate-400">[detection] Processing frame batch...</p>
-            <p className="text-cyan-400">[detection] Found: 3 cars, 2 persons</p>
-            <p className="text-orange-400">[risk] Computing frame risk score...</p>
-            <p className="text-slate-400">[risk] Checking vehicle overlaps...</p>
-            <p className="text-yellow-400">[risk] Pedestrian proximity detected</p>
-            <p className="text-emerald-400">[analysis] Frame score: 42/100</p>
-          </motion.div>
+        {/* Backend upload, resumable after a pause or a dropped connection */}
+        {upload && (
+          <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50 space-y-3 text-left">
+            <div className="flex items-center gap-3 text-sm">
+              <CloudUpload className="w-4 h-4 text-cyan-400 shrink-0" />
+              <span className="text-slate-300 flex-1">
+                {formatMegabytes(upload.uploadedBytes)} of {formatMegabytes(upload.totalBytes)}
+                {upload.state === 'paused' && <span className="text-amber-400"> · Paused</span>}
+                {upload.state === 'retrying' && <span className="text-orange-400"> · Connection lost, retry {upload.attempt}</span>}
+              </span>
+              {upload.state === 'paused' ? (
+                onResumeUpload && (
+                  <button
+                    onClick={onResumeUpload}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-cyan-600 hover:bg-cyan-500 rounded-lg transition-colors"
+                  >
+                    <Play className="w-3.5 h-3.5" /> Resume
+                  </button>
+                )
+              ) : (
+                onPauseUpload && upload.state !== 'done' && (
+                  <button
+                    onClick={onPauseUpload}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 border border-slate-700/50 rounded-lg transition-colors"
+                  >
+                    <Pause className="w-3.5 h-3.5" /> Pause
+                  </button>
+                )
+              )}
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-cyan-500 transition-all duration-300"
+                style={{ width: `${(upload.uploadedBytes / upload.totalBytes) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Analysis log, from the server's event stream or the browser pipeline */}
+        <div className="bg-slate-900/80 rounded-xl p-4 border border-slate-700/50 font-mono text-xs text-left h-28 overflow-hidden flex flex-col justify-end">
+          {log.length === 0 ? (
+            <p className="text-slate-500">Waiting for the first events...</p>
+          ) : (
+            log.slice(-VISIBLE_LOG_LINES).map((entry, index) => (
+              <p key={Math.max(0, log.length - VISIBLE_LOG_LINES) + index} className={`truncate ${LOG_COLORS[entry.level]}`}>
+                <span className="text-slate-600">{new Date(entry.time).toLocaleTimeString()}</span> {entry.message}
+              </p>
+            ))
+          )}
         </div>
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 border border-slate-700/50 rounded-xl transition-colors"
+          >
+            <X className="w-4 h-4" /> Cancel Analysis
+          </button>
+        )}
       </div>
     </motion.div>
   );
@@ -1,12 +1,21 @@
-import { useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, Circle } from 'react-leaflet';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents, Circle, Polyline, CircleMarker, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
-import { RiskAnalysis } from '../types';
+import { Move } from 'lucide-react';
+import { LocationResult, RiskAnalysis } from '../types';
+import { positionAt, routeRiskSegments } from '../utils/gpsTrack';
+import { scoreToLevel } from '../utils/riskLogic';
 
 interface MapViewProps {
   center: [number, number];
   zoom: number;
   analyses: RiskAnalysis[];
+  /** Location pin for the next analysis, dragged to refine it */
+  selectedLocation?: LocationResult | null;
+  /** Map clicked or pin dropped; enables click-to-pick when set */
+  onPickLocation?: (lat: number, lon: number) => void;
+  /** An analysis marker was dragged to corrected coordinates */
+  onMoveAnalysis?: (analysis: RiskAnalysis, lat: number, lon: number) => void;
 }
 
 // Risk level colors matching Python map_view.py
@@ -66,6 +75,101 @@ const createCustomIcon = (riskLevel: string) => {
   });
 };
 
+// Pin for the location being chosen, distinct from the risk markers
+const pickedLocationIcon = L.divIcon({
+  className: 'custom-marker',
+  html: `
+    <div style="
+      width: 28px;
+      height: 28px;
+      background: #06b6d4;
+      border-radius: 50% 50% 50% 0;
+      transform: rotate(-45deg);
+      border: 3px solid white;
+      box-shadow: 0 4px 14px #06b6d480;
+    "></div>
+  `,
+  iconSize: [28, 28],
+  iconAnchor: [14, 28],
+});
+
+function draggedPosition(event: L.LeafletEvent): L.LatLng {
+  return (event.target as L.Marker).getLatLng();
+}
+
+// Longest gap between the clicks of a double-click, which zooms instead
+const DOUBLE_CLICK_MS = 300;
+
+// Map clicks drop the location pin; the first click while moving a marker cancels the move
+function ClickToPick({ onPick, onCancelMove, isMoving }: {
+  onPick?: (lat: number, lon: number) => void;
+  onCancelMove: () => void;
+  isMoving: boolean;
+}) {
+  const pending = useRef<ReturnType<typeof setTimeout>>(undefined);
+  useEffect(() => () => clearTimeout(pending.current), []);
+
+  useMapEvents({
+    click(event) {
+      if (event.originalEvent.detail > 1) return;
+      const { lat, lng } = event.latlng;
+      clearTimeout(pending.current);
+      pending.current = setTimeout(() => {
+        if (isMoving) onCancelMove();
+        else onPick?.(lat, lng);
+      }, DOUBLE_CLICK_MS);
+    },
+    dblclick() {
+      clearTimeout(pending.current);
+    },
+  });
+  return null;
+}
+
+// Stretches of a route no sampled frame covers
+const UNSCORED_ROUTE_STYLE = { color: '#64748b', weight: 4, opacity: 0.7, dashArray: '6 8' };
+
+// Route of moving footage, coloured by the risk along it, with its incidents where they happened
+function RouteOverlay({ analysis }: { analysis: RiskAnalysis }) {
+  const track = analysis.gpsTrack ?? [];
+  const segments = useMemo(
+    () => analysis.frames
+      ? routeRiskSegments(track, analysis.frames, analysis.riskModel)
+      // History summaries come without frames; nothing is known per stretch until they load
+      : [{ positions: track.map(p => [p.lat, p.lon] as [number, number]), riskLevel: null, peakScore: null }],
+    [analysis, track]
+  );
+
+  return (
+    <>
+      {segments.map((segment, i) => (
+        <Polyline
+          key={i}
+          positions={segment.positions}
+          pathOptions={segment.riskLevel
+            ? { color: RISK_COLORS[segment.riskLevel], weight: 5, opacity: 0.85 }
+            : UNSCORED_ROUTE_STYLE}
+        />
+      ))}
+      {analysis.incidents?.map(incident => {
+        const position = positionAt(track, incident.startTime);
+        if (!position) return null;
+        const color = RISK_COLORS[scoreToLevel(incident.peakScore, analysis.riskModel)];
+        return (
+          <CircleMarker
+            key={incident.id}
+            center={position}
+            radius={6}
+            pathOptions={{ color: 'white', weight: 2, fillColor: color, fillOpacity: 1 }}
+          >
+            <Tooltip>{incident.type.replace(/-/g, ' ')} at {incident.startTime.toFixed(1)}s</Tooltip>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+}
+
 function MapController({ center, zoom }: { center: [number, number]; zoom: number }) {
   const map = useMap();
   const prevCenter = useRef(center);
@@ -80,7 +184,10 @@ function MapController({ center, zoom }: { center: [number, number]; zoom: numbe
   return null;
 }
 
-export function MapView({ center, zoom, analyses }: MapViewProps) {
+export function MapView({ center, zoom, analyses, selectedLocation, onPickLocation, onMoveAnalysis }: MapViewProps) {
+  // Analysis whose marker is unlocked for dragging
+  const [movingId, setMovingId] = useState<string | null>(null);
+
   return (
     <MapContainer
       center={center}
@@ -94,12 +201,29 @@ export function MapView({ center, zoom, analyses }: MapViewProps) {
         url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
       />
       <MapController center={center} zoom={zoom} />
+      <ClickToPick onPick={onPickLocation} onCancelMove={() => setMovingId(null)} isMoving={movingId !== null} />
+
+      {selectedLocation && (
+        <Marker
+          position={[selectedLocation.lat, selectedLocation.lon]}
+          icon={pickedLocationIcon}
+          draggable={!!onPickLocation}
+          eventHandlers={{
+            dragend: (event) => {
+              const { lat, lng } = draggedPosition(event);
+              onPickLocation?.(lat, lng);
+            },
+          }}
+        />
+      )}
       
       {analyses.map((analysis) => {
         const color = RISK_COLORS[analysis.riskLevel] || RISK_COLORS.LOW;
         
         return (
           <div key={analysis.id}>
+            {analysis.gpsTrack && analysis.gpsTrack.length > 1 && <RouteOverlay analysis={analysis} />}
+
             {/* Risk radius circle */}
             <Circle
               center={[analysis.lat, analysis.lon]}
@@ -116,6 +240,15 @@ export function MapView({ center, zoom, analyses }: MapViewProps) {
             <Marker
               position={[analysis.lat, analysis.lon]}
               icon={createCustomIcon(analysis.riskLevel)}
+              draggable={movingId === analysis.id}
+              opacity={movingId !== null && movingId !== analysis.id ? 0.5 : 1}
+              eventHandlers={{
+                dragend: (event) => {
+                  const { lat, lng } = draggedPosition(event);
+                  setMovingId(null);
+                  onMoveAnalysis?.(analysis, lat, lng);
+                },
+              }}
             >
               <Popup className="custom-popup">
                 <div className="bg-slate-900/95 backdrop-blur-xl text-white p-5 rounded-xl min-w-[240px] -m-3 border border-slate-700/50 shadow-2xl">
@@ -163,6 +296,25 @@ export function MapView({ center, zoom, analyses }: MapViewProps) {
                       <span>Analyzed</span>
                       <span>{new Date(analysis.timestamp).toLocaleString()}</span>
                     </div>
+                    {analysis.recordedAt && (
+                      <div className="text-xs text-slate-500 flex justify-between">
+                        <span>Recorded</span>
+                        <span>{new Date(analysis.recordedAt).toLocaleString()}</span>
+                      </div>
+                    )}
+
+                    {onMoveAnalysis && (
+                      movingId === analysis.id ? (
+                        <p className="text-xs text-cyan-400 text-center">Drag the marker to its correct position</p>
+                      ) : (
+                        <button
+                          onClick={() => setMovingId(analysis.id)}
+                          className="w-full py-1.5 text-xs text-slate-300 hover:text-white bg-slate-800/80 hover:bg-slate-700/80 rounded-lg flex items-center justify-center gap-1.5"
+                        >
+                          <Move className="w-3.5 h-3.5" /> Move marker
+                        </button>
+                      )
+                    )}
                   </div>
                 </div>
               </Popup>
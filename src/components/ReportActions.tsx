@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { FileText, Printer, Loader2 } from 'lucide-react';
+import { RiskAnalysis } from '../types';
+import { buildReportHtml, openReportWindow, prepareReport, printReport } from '../utils/report';
+import { downloadFile } from '../utils/exportImport';
+
+interface ReportActionsProps {
+  analyses: RiskAnalysis[];
+  videoFiles: Map<string, File>; // clips available for incident thumbnails
+  className?: string;
+}
+
+type ReportFormat = 'print' | 'pdf';
+
+export function ReportActions({ analyses, videoFiles, className = '' }: ReportActionsProps) {
+  const [busy, setBusy] = useState<ReportFormat | null>(null);
+  const [error, setError] = useState('');
+
+  const generate = async (format: ReportFormat) => {
+    setBusy(format);
+    setError('');
+    let reportWindow: Window | null = null;
+    try {
+      // Opened before the slow part, while the click still allows a pop-up
+      if (format === 'print') reportWindow = openReportWindow();
+      const sections = await prepareReport(analyses, videoFiles);
+      if (reportWindow) {
+        printReport(reportWindow, buildReportHtml(sections));
+      } else {
+        const { buildReportPdf } = await import('../utils/reportPdf');
+        const pdf = await buildReportPdf(sections);
+        const name = analyses.length === 1 ? analyses[0].locationName.replace(/[^\w-]+/g, '-').toLowerCase() : `${analyses.length}-sites`;
+        downloadFile(pdf, `safesight-report-${name}.pdf`, 'application/pdf');
+      }
+    } catch (err) {
+      reportWindow?.close();
+      console.error('[report] Report generation failed:', err);
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1.5 px-2.5 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white rounded-md text-xs transition-colors disabled:opacity-50';
+
+  return (
+    <div className={`flex items-center gap-1.5 ${className}`}>
+      <button onClick={() => generate('print')} disabled={busy !== null || analyses.length === 0} className={buttonClass} title="Open a print-ready report">
+        {busy === 'print' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Printer className="w-3.5 h-3.5" />}
+        Report
+      </button>
+      <button onClick={() => generate('pdf')} disabled={busy !== null || analyses.length === 0} className={buttonClass} title="Download the report as PDF">
+        {busy === 'pdf' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileText className="w-3.5 h-3.5" />}
+        PDF
+      </button>
+      {error && <span className="text-xs text-red-400 truncate" title={error}>{error}</span>}
+    </div>
+  );
+}
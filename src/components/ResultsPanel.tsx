@@ -1,6 +1,14 @@
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AlertTriangle, TrendingUp, Clock, Video, X, Shield, AlertCircle, BarChart3, Users, Car } from 'lucide-react';
-import { RiskAnalysis } from '../types';
+import { AlertTriangle, Clock, Video, X, Shield, AlertCircle, BarChart3, Hash, SlidersHorizontal, Play, Download } from 'lucide-react';
+import { RiskAnalysis, RiskModelConfig } from '../types';
+import { AGGREGATION_STRATEGIES, describeAggregation } from '../utils/aggregation';
+import { ASSESSMENT_TEXT, aggregateToLevel } from '../utils/riskLogic';
+import { RiskTimeline } from './RiskTimeline';
+import { AnnotatedPlayer } from './AnnotatedPlayer';
+import { ReportActions } from './ReportActions';
+import { INCIDENT_LABELS } from '../utils/incidents';
+import { ExportFormat, downloadFile, exportAnalyses } from '../utils/exportImport';
 
 // Risk colors matching Python map_view.py
 const RISK_COLORS = {
@@ -12,13 +20,32 @@ const RISK_COLORS = {
 
 interface ResultsPanelProps {
   analysis: RiskAnalysis | null;
+  videoFile?: File | null; // original upload, only available in the session that analysed it
+  riskModels: RiskModelConfig[];
+  onRescore: (modelId: string) => void;
   onClose: () => void;
 }
 
-export function ResultsPanel({ analysis, onClose }: ResultsPanelProps) {
+const SEVERITY_TEXT = { low: 'text-yellow-400', medium: 'text-orange-400', high: 'text-red-400' };
+
+// Icon and colour of the safety assessment for each risk level
+const ASSESSMENT_STYLE = {
+  LOW: { icon: Shield, text: 'text-green-400' },
+  MEDIUM: { icon: AlertCircle, text: 'text-yellow-400' },
+  HIGH: { icon: AlertTriangle, text: 'text-orange-400' },
+  CRITICAL: { icon: AlertTriangle, text: 'text-red-500' },
+};
+
+function formatSeconds(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export function ResultsPanel({ analysis, videoFile, riskModels, onRescore, onClose }: ResultsPanelProps) {
+  const [seekTo, setSeekTo] = useState<{ time: number } | undefined>(undefined);
   if (!analysis) return null;
 
   const colors = RISK_COLORS[analysis.riskLevel] || RISK_COLORS.LOW;
+  const AssessmentIcon = ASSESSMENT_STYLE[analysis.riskLevel].icon;
 
   return (
     <AnimatePresence>
@@ -96,11 +123,113 @@ export function ResultsPanel({ analysis, onClose }: ResultsPanelProps) {
                 <p className="text-xs text-slate-500">Peak Risk</p>
               </div>
             </div>
+            {analysis.frameStats.uniqueVehicles !== undefined && (
+              <p className="text-xs text-slate-400 mt-3 text-center">
+                Tracked road users:{' '}
+                <span className="text-cyan-400 font-semibold">{analysis.frameStats.uniqueVehicles} vehicles</span>
+                {' · '}
+                <span className="text-purple-400 font-semibold">{analysis.frameStats.uniquePersons} pedestrians</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Risk Model - re-score with another profile */}
+        {analysis.riskModel && (
+          <div className="px-4 md:px-6 py-3 border-b border-slate-800 flex items-center gap-3">
+            <SlidersHorizontal className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            <span className="text-xs text-slate-400 flex-shrink-0">Risk model</span>
+            <select
+              value={analysis.riskModel.id}
+              disabled={!analysis.frames}
+              onChange={(e) => onRescore(e.target.value)}
+              title={analysis.frames ? 'Re-score this video under another profile' : 'No stored frames to re-score'}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-slate-800/80 border border-slate-700/50 rounded-lg text-white text-xs focus:outline-none disabled:opacity-50"
+            >
+              {!riskModels.some(m => m.id === analysis.riskModel!.id) && (
+                <option value={analysis.riskModel.id}>{analysis.riskModel.name}</option>
+              )}
+              {riskModels.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
           </div>
         )}
 
         {/* Safety Assessment */}
         <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-4">
+          {/* Uploaded clip with each processed frame's detections drawn on top */}
+          {videoFile && analysis.frames && analysis.video && (
+            <AnnotatedPlayer file={videoFile} frames={analysis.frames} video={analysis.video} seekTo={seekTo} />
+          )}
+
+          {/* Per-frame score and counts over video time */}
+          {analysis.frames && analysis.frames.length > 1 && (
+            <RiskTimeline frames={analysis.frames} riskModel={analysis.riskModel} incidents={analysis.incidents} />
+          )}
+
+          {/* Incidents - click to jump the player to the moment */}
+          {analysis.incidents && analysis.incidents.length > 0 && (
+            <div className="rounded-xl border border-slate-700 bg-slate-800/40 overflow-hidden">
+              <p className="px-4 py-2 text-xs font-semibold text-slate-400 uppercase tracking-wider border-b border-slate-700/50">
+                Incidents ({analysis.incidents.length})
+              </p>
+              <div className="max-h-56 overflow-y-auto divide-y divide-slate-700/40">
+                {analysis.incidents.map(incident => (
+                  <button
+                    key={incident.id}
+                    onClick={() => setSeekTo({ time: incident.startTime })}
+                    disabled={!videoFile}
+                    title={videoFile ? 'Jump to this moment' : 'The original video is not loaded'}
+                    className="w-full flex items-center gap-3 px-4 py-2 text-left text-xs hover:bg-slate-700/40 disabled:hover:bg-transparent disabled:cursor-default"
+                  >
+                    <Play className={`w-3 h-3 flex-shrink-0 ${videoFile ? 'text-slate-300' : 'text-slate-600'}`} />
+                    <span className="font-mono text-slate-400 w-24 flex-shrink-0">
+                      {formatSeconds(incident.startTime)}
+                      {incident.endTime > incident.startTime && `–${formatSeconds(incident.endTime)}`}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className={`font-semibold ${SEVERITY_TEXT[incident.severity]}`}>{INCIDENT_LABELS[incident.type]}</span>
+                      {incident.trackIds.length > 0 && (
+                        <span className="block text-slate-500 truncate">Road users {incident.trackIds.map(id => `#${id}`).join(', ')}</span>
+                      )}
+                    </span>
+                    <span className="font-mono text-white">{incident.peakScore}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Aggregation sensitivity - level under each strategy */}
+          {analysis.aggregation && analysis.riskModel && (
+            <div className="rounded-xl border border-slate-700 bg-slate-800/40 overflow-hidden">
+              <p className="px-4 py-2 text-xs font-semibold text-slate-400 uppercase tracking-wider border-b border-slate-700/50">
+                Score by Aggregation Strategy
+              </p>
+              {AGGREGATION_STRATEGIES.map(strategy => {
+                const score = analysis.aggregation!.scores[strategy];
+                const level = aggregateToLevel(strategy, score, analysis.riskModel);
+                const isUsed = strategy === analysis.aggregation!.strategy;
+                return (
+                  <div
+                    key={strategy}
+                    className={`flex items-center justify-between px-4 py-2 text-xs ${isUsed ? 'bg-slate-700/40' : ''}`}
+                  >
+                    <span className={isUsed ? 'text-white font-semibold' : 'text-slate-400'}>
+                      {describeAggregation(strategy, analysis.riskModel!.aggregation)}
+                      {isUsed && <span className="ml-2 text-red-400">(used)</span>}
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <span className="font-mono text-white">{score}</span>
+                      <span className={`w-16 text-right font-bold ${RISK_COLORS[level].text}`}>{level}</span>
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider flex items-center gap-2">
             <AlertCircle className="w-4 h-4 text-blue-400" />
             Safety Assessment
@@ -112,61 +241,28 @@ export function ResultsPanel({ analysis, onClose }: ResultsPanelProps) {
             transition={{ delay: 0.3 }}
             className="p-5 rounded-xl border border-slate-700 bg-slate-800/40"
           >
-            {analysis.riskLevel === 'LOW' ? (
-              <div className="space-y-3">
-                <div className="flex items-start gap-3">
-                  <Shield className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-green-400 font-semibold text-sm">Safe Area</p>
-                    <p className="text-slate-300 text-sm mt-1">
-                      This location shows minimal traffic hazards and pedestrian safety concerns. Vehicle flow and movement patterns are normal with no significant congestion or irregular behavior detected.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            ) : analysis.riskLevel === 'MEDIUM' ? (
-              <div className="space-y-3">
-                <div className="flex items-start gap-3">
-                  <AlertCircle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-yellow-400 font-semibold text-sm">Moderate Caution Required</p>
-                    <p className="text-slate-300 text-sm mt-1">
-                      The area shows some traffic density and occasional irregular patterns. Exercise standard caution with normal traffic awareness. {analysis.violations.length > 0 && `Detected ${analysis.violations.length} risk factor${analysis.violations.length !== 1 ? 's' : ''}.`}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            ) : analysis.riskLevel === 'HIGH' ? (
-              <div className="space-y-3">
-                <div className="flex items-start gap-3">
-                  <AlertTriangle className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-orange-400 font-semibold text-sm">High Risk - Use Caution</p>
-                    <p className="text-slate-300 text-sm mt-1">
-                      Multiple traffic irregularities and safety concerns detected. {analysis.violations.length > 0 && `Identified ${analysis.violations.length} risk factor${analysis.violations.length !== 1 ? 's' : ''}.`} Heightened awareness recommended for drivers and pedestrians.
-                    </p>
-                  </div>
+            <div className="space-y-3">
+              <div className="flex items-start gap-3">
+                <AssessmentIcon className={`w-5 h-5 ${ASSESSMENT_STYLE[analysis.riskLevel].text} flex-shrink-0 mt-0.5`} />
+                <div>
+                  <p className={`${ASSESSMENT_STYLE[analysis.riskLevel].text} font-semibold text-sm`}>{ASSESSMENT_TEXT[analysis.riskLevel].title}</p>
+                  <p className="text-slate-300 text-sm mt-1">
+                    {ASSESSMENT_TEXT[analysis.riskLevel].text} {analysis.violations.length > 0 && `Detected ${analysis.violations.length} risk factor${analysis.violations.length !== 1 ? 's' : ''}.`}
+                  </p>
                 </div>
               </div>
-            ) : (
-              <div className="space-y-3">
-                <div className="flex items-start gap-3">
-                  <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-red-500 font-semibold text-sm">Critical Risk - Avoid if Possible</p>
-                    <p className="text-slate-300 text-sm mt-1">
-                      Significant hazards and safety violations detected. {analysis.violations.length > 0 && `Multiple critical risk factors (${analysis.violations.length}) identified.`} This area requires immediate attention and highest caution level.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            )}
+            </div>
           </motion.div>
         </div>
 
         {/* Footer Stats */}
         <div className="p-4 md:p-6 border-t border-slate-800 bg-slate-950/50">
-          <div className="grid grid-cols-2 gap-3 md:gap-4">
+          <ReportActions
+            analyses={[analysis]}
+            videoFiles={videoFile ? new Map([[analysis.id, videoFile]]) : new Map()}
+            className="justify-center mb-4"
+          />
+          <div className={`grid ${analysis.seed !== undefined ? 'grid-cols-3' : 'grid-cols-2'} gap-3 md:gap-4`}>
             <div className="text-center">
               <div className="w-10 md:w-12 h-10 md:h-12 mx-auto mb-2 bg-slate-800 rounded-xl flex items-center justify-center">
                 <Video className="w-5 md:w-6 h-5 md:h-6 text-slate-400" />
@@ -185,7 +281,17 @@ export function ResultsPanel({ analysis, onClose }: ResultsPanelProps) {
                 {new Date(analysis.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </p>
             </div>
-            
+            {analysis.seed !== undefined && (
+              <div className="text-center">
+                <div className="w-10 md:w-12 h-10 md:h-12 mx-auto mb-2 bg-slate-800 rounded-xl flex items-center justify-center">
+                  <Hash className="w-5 md:w-6 h-5 md:h-6 text-slate-400" />
+                </div>
+                <p className="text-xs text-slate-500">Seed</p>
+                <p className="text-xs md:text-sm text-white font-medium font-mono select-all" title="Enter this seed to replay the run">
+                  {analysis.seed}
+                </p>
+              </div>
+            )}
           </div>
         </div>
       </motion.div>
@@ -196,16 +302,43 @@ export function ResultsPanel({ analysis, onClose }: ResultsPanelProps) {
 // Analysis History Panel - matching Python's map legend style
 interface HistoryPanelProps {
   analyses: RiskAnalysis[];
+  videoFiles: Map<string, File>;
   onSelect: (analysis: RiskAnalysis) => void;
 }
 
-export function HistoryPanel({ analyses, onSelect }: HistoryPanelProps) {
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'geojson', label: 'GeoJSON' },
+];
+
+export function HistoryPanel({ analyses, videoFiles, onSelect }: HistoryPanelProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
   if (analyses.length === 0) return null;
 
+  // Export the checked analyses, or all of them when none are checked
+  const selected = analyses.filter(a => selectedIds.has(a.id));
+  const exportTargets = selected.length > 0 ? selected : analyses;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const { content, filename, mimeType } = exportAnalyses(exportTargets, format);
+    downloadFile(content, filename, mimeType);
+  };
+
   return (
     <div className="absolute bottom-4 left-4 right-4 z-[999]">
       <div className="bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 rounded-2xl p-5 shadow-2xl">
-        <div className="flex items-center justify-between mb-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
           <div className="flex items-center gap-2">
             <Shield className="w-5 h-5 text-red-400" />
             <span className="text-sm font-bold text-white">Analysis History</span>
@@ -214,6 +347,24 @@ export function HistoryPanel({ analyses, onSelect }: HistoryPanelProps) {
             </span>
           </div>
           
+          <div className="flex items-center gap-1.5 text-xs">
+            <Download className="w-3.5 h-3.5 text-slate-500" />
+            <span className="text-slate-500 mr-1">
+              {selected.length > 0 ? `Export ${selected.length} selected` : 'Export all'}
+            </span>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="px-2 py-0.5 bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white rounded-md transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <ReportActions analyses={exportTargets} videoFiles={videoFiles} />
+          
           {/* Legend - matching Python map_view.py */}
           <div className="flex items-center gap-4 text-xs">
             <div className="flex items-center gap-1.5">
@@ -232,6 +383,12 @@ export function HistoryPanel({ analyses, onSelect }: HistoryPanelProps) {
               <span className="w-3 h-3 bg-red-600 rounded-full" />
               <span className="text-slate-400">CRITICAL</span>
             </div>
+            {analyses.some(a => a.gpsTrack?.length) && (
+              <div className="flex items-center gap-1.5">
+                <span className="w-4 border-t-2 border-dashed border-slate-500" />
+                <span className="text-slate-400">Route not analyzed</span>
+              </div>
+            )}
           </div>
         </div>
         
@@ -240,26 +397,34 @@ export function HistoryPanel({ analyses, onSelect }: HistoryPanelProps) {
             const colors = RISK_COLORS[analysis.riskLevel] || RISK_COLORS.LOW;
             
             return (
-              <motion.button
-                key={analysis.id}
-                onClick={() => onSelect(analysis)}
-                whileHover={{ scale: 1.03, y: -2 }}
-                whileTap={{ scale: 0.98 }}
-                className="flex-shrink-0 p-4 bg-slate-800/80 hover:bg-slate-700/80 rounded-xl border border-slate-700/50 hover:border-slate-600/50 transition-colors min-w-[200px] text-left"
-              >
-                <div className="flex items-center justify-between mb-3">
-                  <span 
-                    className="w-4 h-4 rounded-full shadow-lg"
-                    style={{ background: colors.color, boxShadow: `0 0 10px ${colors.color}50` }}
-                  />
-                  <span className="text-xs text-slate-400 font-mono">{analysis.riskScore}/100</span>
-                </div>
-                <p className="text-sm text-white font-semibold truncate">{analysis.locationName}</p>
-                <p className={`text-xs ${colors.text} font-medium mt-1`}>{analysis.riskLevel} Risk</p>
-                <p className="text-xs text-slate-500 mt-2">
-                  {new Date(analysis.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </p>
-              </motion.button>
+              <div key={analysis.id} className="relative flex-shrink-0">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(analysis.id)}
+                  onChange={() => toggleSelected(analysis.id)}
+                  title="Select for export"
+                  className="absolute bottom-3 right-3 z-10 w-3.5 h-3.5 accent-red-500 cursor-pointer"
+                />
+                <motion.button
+                  onClick={() => onSelect(analysis)}
+                  whileHover={{ scale: 1.03, y: -2 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="p-4 bg-slate-800/80 hover:bg-slate-700/80 rounded-xl border border-slate-700/50 hover:border-slate-600/50 transition-colors min-w-[200px] text-left"
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <span 
+                      className="w-4 h-4 rounded-full shadow-lg"
+                      style={{ background: colors.color, boxShadow: `0 0 10px ${colors.color}50` }}
+                    />
+                    <span className="text-xs text-slate-400 font-mono">{analysis.riskScore}/100</span>
+                  </div>
+                  <p className="text-sm text-white font-semibold truncate">{analysis.locationName}</p>
+                  <p className={`text-xs ${colors.text} font-medium mt-1`}>{analysis.riskLevel} Risk</p>
+                  <p className="text-xs text-slate-500 mt-2">
+                    {new Date(analysis.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                </motion.button>
+              </div>
             );
           })}
         </div>
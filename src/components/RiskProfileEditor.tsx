@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Copy, Trash2, Save, SlidersHorizontal } from 'lucide-react';
+import { AggregationStrategy, RiskModelConfig } from '../types';
+import { cloneRiskModel, validateRiskModel } from '../utils/riskProfiles';
+import { AGGREGATION_STRATEGIES, describeAggregation } from '../utils/aggregation';
+
+interface RiskProfileEditorProps {
+  models: RiskModelConfig[];
+  initialId: string;
+  onSave: (models: RiskModelConfig[], selectedId: string) => void;
+  onClose: () => void;
+}
+
+const WEIGHT_FIELDS: { key: keyof RiskModelConfig['weights']; label: string }[] = [
+  { key: 'vehicle', label: 'Per vehicle' },
+  { key: 'person', label: 'Per person' },
+  { key: 'conflict', label: 'Per vehicle conflict' },
+  { key: 'proximity', label: 'Per pedestrian proximity' },
+];
+
+const THRESHOLD_FIELDS: { key: keyof RiskModelConfig['thresholds']; label: string }[] = [
+  { key: 'medium', label: 'MEDIUM from' },
+  { key: 'high', label: 'HIGH from' },
+  { key: 'critical', label: 'CRITICAL from' },
+];
+
+export function RiskProfileEditor({ models, initialId, onSave, onClose }: RiskProfileEditorProps) {
+  const [drafts, setDrafts] = useState<RiskModelConfig[]>(models);
+  const [selectedId, setSelectedId] = useState(initialId);
+  const [error, setError] = useState('');
+
+  const selected = drafts.find(m => m.id === selectedId) || drafts[0];
+  const readOnly = !!selected.builtIn;
+
+  const updateSelected = (changes: Partial<RiskModelConfig>) => {
+    setDrafts(prev => prev.map(m => (m.id === selected.id ? { ...m, ...changes } : m)));
+    setError('');
+  };
+
+  const handleDuplicate = () => {
+    const copy = cloneRiskModel(selected, `${selected.name} (custom)`);
+    setDrafts(prev => [...prev, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    setDrafts(prev => prev.filter(m => m.id !== selected.id));
+    setSelectedId(drafts[0].id);
+  };
+
+  const handleSave = () => {
+    for (const model of drafts) {
+      const problem = validateRiskModel(model);
+      if (problem) {
+        setSelectedId(model.id);
+        setError(problem);
+        return;
+      }
+    }
+    onSave(drafts, selected.id);
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-800/80 border border-slate-700/50 rounded-lg text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-red-500/50 disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-lg bg-slate-900 border border-slate-700/50 rounded-2xl shadow-2xl overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+            <SlidersHorizontal className="w-5 h-5 text-red-400" />
+            <h2 className="text-lg font-bold text-white">Risk Model Profiles</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white rounded-lg hover:bg-slate-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5 max-h-[70vh] overflow-y-auto">
+          {/* Profile picker */}
+          <div className="flex gap-2">
+            <select
+              value={selected.id}
+              onChange={(e) => { setSelectedId(e.target.value); setError(''); }}
+              className="flex-1 px-3 py-2 bg-slate-800/80 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none"
+            >
+              {drafts.map(m => (
+                <option key={m.id} value={m.id}>{m.name}{m.builtIn ? ' (built-in)' : ''}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleDuplicate}
+              title="Duplicate as a custom profile"
+              className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+            {!readOnly && (
+              <button
+                onClick={handleDelete}
+                title="Delete profile"
+                className="px-3 py-2 bg-red-500/10 hover:bg-red-500/20 rounded-lg text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {readOnly && (
+            <p className="text-xs text-slate-500">Built-in profiles are read-only. Duplicate one to adjust its calibration.</p>
+          )}
+
+          <div>
+            <label className="text-xs text-slate-400 font-medium">Name</label>
+            <input
+              type="text"
+              value={selected.name}
+              disabled={readOnly}
+              onChange={(e) => updateSelected({ name: e.target.value })}
+              className={`${inputClass} font-sans mt-1`}
+            />
+          </div>
+
+          {/* Frame score weights */}
+          <div>
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Frame Score Weights</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {WEIGHT_FIELDS.map(({ key, label }) => (
+                <label key={key} className="text-xs text-slate-400">
+                  {label}
+                  <input
+                    type="number"
+                    min={0}
+                    value={selected.weights[key]}
+                    disabled={readOnly}
+                    onChange={(e) => updateSelected({ weights: { ...selected.weights, [key]: Number(e.target.value) } })}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              ))}
+              <label className="text-xs text-slate-400">
+                Proximity radius (× frame width)
+                <input
+                  type="number"
+                  min={0.01}
+                  max={1}
+                  step={0.01}
+                  value={selected.proximityRadius}
+                  disabled={readOnly}
+                  onChange={(e) => updateSelected({ proximityRadius: Number(e.target.value) })}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+          </div>
+
+          {/* Level thresholds */}
+          <div>
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Risk Level Thresholds</h3>
+            <div className="grid grid-cols-3 gap-3">
+              {THRESHOLD_FIELDS.map(({ key, label }) => (
+                <label key={key} className="text-xs text-slate-400">
+                  {label}
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={selected.thresholds[key]}
+                    disabled={readOnly}
+                    onChange={(e) => updateSelected({ thresholds: { ...selected.thresholds, [key]: Number(e.target.value) } })}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Aggregation strategy */}
+          <div>
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Video Score Aggregation</h3>
+            <select
+              value={selected.aggregation.strategy}
+              disabled={readOnly}
+              onChange={(e) => updateSelected({ aggregation: { ...selected.aggregation, strategy: e.target.value as AggregationStrategy } })}
+              className={`${inputClass} font-sans`}
+            >
+              {AGGREGATION_STRATEGIES.map(strategy => (
+                <option key={strategy} value={strategy}>{describeAggregation(strategy, selected.aggregation)}</option>
+              ))}
+            </select>
+            <div className="grid grid-cols-3 gap-3 mt-3">
+              <label className="text-xs text-slate-400">
+                Percentile
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={selected.aggregation.percentile}
+                  disabled={readOnly}
+                  onChange={(e) => updateSelected({ aggregation: { ...selected.aggregation, percentile: Number(e.target.value) } })}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="text-xs text-slate-400">
+                Half-life (s)
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.5}
+                  value={selected.aggregation.ewmHalfLife}
+                  disabled={readOnly}
+                  onChange={(e) => updateSelected({ aggregation: { ...selected.aggregation, ewmHalfLife: Number(e.target.value) } })}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="text-xs text-slate-400">
+                Risky score ≥
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={selected.aggregation.timeAboveThreshold}
+                  disabled={readOnly}
+                  onChange={(e) => updateSelected({ aggregation: { ...selected.aggregation, timeAboveThreshold: Number(e.target.value) } })}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="p-5 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-300 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-gradient-to-r from-red-600 to-orange-500 text-white text-sm font-semibold rounded-lg flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Save & Use
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useRef, useState } from 'react';
+import { FrameAnalysis, Incident, RiskModelConfig } from '../types';
+import { DEFAULT_RISK_MODEL } from '../utils/riskProfiles';
+
+interface RiskTimelineProps {
+  frames: FrameAnalysis[];
+  riskModel?: RiskModelConfig;
+  incidents?: Incident[];
+}
+
+// Chart geometry in SVG units; the SVG scales to the panel width
+const WIDTH = 360;
+const HEIGHT = 140;
+const PAD = { left: 24, right: 20, top: 8, bottom: 18 };
+const PLOT_W = WIDTH - PAD.left - PAD.right;
+const PLOT_H = HEIGHT - PAD.top - PAD.bottom;
+
+const BAND_COLORS = {
+  LOW: '#22c55e',
+  MEDIUM: '#f97316',
+  HIGH: '#ef4444',
+  CRITICAL: '#dc2626',
+};
+
+function formatTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+export function RiskTimeline({ frames, riskModel = DEFAULT_RISK_MODEL, incidents = [] }: RiskTimelineProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  if (frames.length === 0) return null;
+
+  const start = frames[0].timestamp;
+  const span = Math.max(frames[frames.length - 1].timestamp - start, 1e-3);
+  const maxCount = Math.max(1, ...frames.map(f => Math.max(f.vehicleCount, f.personCount)));
+
+  const x = (timestamp: number) => PAD.left + ((timestamp - start) / span) * PLOT_W;
+  const yScore = (score: number) => PAD.top + PLOT_H - (score / 100) * PLOT_H;
+  const yCount = (count: number) => PAD.top + PLOT_H - (count / maxCount) * PLOT_H;
+  const line = (y: (f: FrameAnalysis) => number) => frames.map(f => `${x(f.timestamp)},${y(f)}`).join(' ');
+
+  const { medium, high, critical } = riskModel.thresholds;
+  const bands: { level: keyof typeof BAND_COLORS; from: number; to: number }[] = [
+    { level: 'LOW', from: 0, to: medium },
+    { level: 'MEDIUM', from: medium, to: high },
+    { level: 'HIGH', from: high, to: critical },
+    { level: 'CRITICAL', from: critical, to: 100 },
+  ];
+
+  // Snap the cursor to the nearest sampled frame
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const t = start + (((e.clientX - rect.left) / rect.width) * WIDTH - PAD.left) / PLOT_W * span;
+    let nearest = 0;
+    frames.forEach((f, i) => {
+      if (Math.abs(f.timestamp - t) < Math.abs(frames[nearest].timestamp - t)) nearest = i;
+    });
+    setHovered(nearest);
+  };
+
+  const frame = hovered !== null ? frames[hovered] : null;
+
+  return (
+    <div className="rounded-xl border border-slate-700 bg-slate-800/40 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Risk Timeline</span>
+        <div className="flex items-center gap-3 text-[10px] text-slate-400">
+          <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-white" /> Score</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-cyan-400" /> Vehicles</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-purple-400" /> Persons</span>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto cursor-crosshair"
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHovered(null)}
+      >
+        {/* Risk level bands */}
+        {bands.map(band => (
+          <rect
+            key={band.level}
+            x={PAD.left}
+            y={yScore(band.to)}
+            width={PLOT_W}
+            height={yScore(band.from) - yScore(band.to)}
+            fill={BAND_COLORS[band.level]}
+            opacity={0.08}
+          />
+        ))}
+        {[medium, high, critical].map(t => (
+          <g key={t}>
+            <line x1={PAD.left} x2={PAD.left + PLOT_W} y1={yScore(t)} y2={yScore(t)} stroke="#475569" strokeDasharray="2 3" strokeWidth={0.5} />
+            <text x={PAD.left - 4} y={yScore(t) + 3} textAnchor="end" fontSize={7} fill="#64748b">{t}</text>
+          </g>
+        ))}
+
+        {/* Incident spans */}
+        {incidents.map(incident => (
+          <rect
+            key={incident.id}
+            x={x(incident.startTime) - 1}
+            y={PAD.top}
+            width={Math.max(2, x(incident.endTime) - x(incident.startTime) + 2)}
+            height={PLOT_H}
+            fill="#ef4444"
+            opacity={0.15}
+          />
+        ))}
+
+        {/* Axes labels */}
+        <text x={PAD.left + PLOT_W + 4} y={yCount(maxCount) + 3} fontSize={7} fill="#64748b">{maxCount}</text>
+        <text x={PAD.left} y={HEIGHT - 4} fontSize={7} fill="#64748b">{formatTime(start)}</text>
+        <text x={PAD.left + PLOT_W} y={HEIGHT - 4} textAnchor="end" fontSize={7} fill="#64748b">{formatTime(start + span)}</text>
+
+        {/* Series */}
+        <polyline points={line(f => yCount(f.vehicleCount))} fill="none" stroke="#22d3ee" strokeWidth={1} opacity={0.8} />
+        <polyline points={line(f => yCount(f.personCount))} fill="none" stroke="#c084fc" strokeWidth={1} opacity={0.8} />
+        <polyline points={line(f => yScore(f.score))} fill="none" stroke="#ffffff" strokeWidth={1.5} />
+
+        {/* Hovered frame */}
+        {frame && (
+          <g>
+            <line x1={x(frame.timestamp)} x2={x(frame.timestamp)} y1={PAD.top} y2={PAD.top + PLOT_H} stroke="#e2e8f0" strokeWidth={0.5} />
+            <circle cx={x(frame.timestamp)} cy={yScore(frame.score)} r={2.5} fill="#ffffff" />
+          </g>
+        )}
+      </svg>
+
+      <div className="h-8 mt-1 text-[11px] text-slate-400 flex items-center">
+        {frame ? (
+          <div className="grid grid-cols-4 gap-x-3 gap-y-0.5 w-full">
+            <span>{formatTime(frame.timestamp)} · #{frame.frameIndex}</span>
+            <span>Score <b className="text-white">{frame.score}</b></span>
+            <span>Vehicles <b className="text-cyan-400">{frame.vehicleCount}</b></span>
+            <span>Persons <b className="text-purple-400">{frame.personCount}</b></span>
+            <span>Overlaps <b className="text-white">{frame.overlaps}</b></span>
+            <span>Proximity <b className="text-white">{frame.proximityRisks}</b></span>
+            <span>Conflicts <b className="text-white">{frame.conflicts}</b></span>
+            {frame.minTtc !== null && <span>TTC <b className="text-white">{frame.minTtc.toFixed(1)}s</b></span>}
+          </div>
+        ) : (
+          <span>Hover the chart to inspect a frame</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
-import { useState, useCallback } from 'react';
-import { MapPin, Upload, Zap, AlertTriangle, ChevronRight, X, Search, Navigation, Loader2 } from 'lucide-react';
+import { useState, useCallback, useRef } from 'react';
+import { MapPin, Upload, Zap, AlertTriangle, ChevronRight, X, Search, Navigation, Loader2, Cpu, SlidersHorizontal, Shapes, HardDrive, Route, Clock } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { searchLocations, getLiveLocation } from '../utils/geocode';
-import { LocationResult } from '../types';
+import { cancelLocationSearch, searchLocations, searchOffline, mergeLocationResults, isOfflineMode, getLiveLocation } from '../utils/geocode';
+import { DETECTOR_LABELS } from '../utils/detectors';
+import { parseSeed } from '../utils/random';
+import { RiskProfileEditor } from './RiskProfileEditor';
+import { ZoneEditor } from './ZoneEditor';
+import { BatchQueuePanel } from './BatchQueuePanel';
+import { GazetteerControls } from './GazetteerControls';
+import { BatchQueue } from '../utils/batchQueue';
+import { Mp4Metadata } from '../utils/mp4Metadata';
+import { LocationResult, DetectorConfig, DetectorKind, RiskModelConfig, ZoneSet, BatchJob } from '../types';
 
 interface SidebarProps {
   locationName: string;
@@ -11,13 +19,36 @@ interface SidebarProps {
   setSelectedLocation: (location: LocationResult | null) => void;
   videoFile: File | null;
   setVideoFile: (file: File | null) => void;
+  clipMetadata: Mp4Metadata | null;
   onAnalyze: () => void;
   isAnalyzing: boolean;
   progress: number;
   errorMessage?: string;
   setErrorMessage?: (message: string) => void;
+  detectorConfig: DetectorConfig;
+  setDetectorConfig: (config: DetectorConfig) => void;
+  backendDetection: boolean; // the server has a detection model
+  seedOverride: number | null;
+  setSeedOverride: (seed: number | null) => void;
+  riskModels: RiskModelConfig[];
+  riskModelId: string;
+  setRiskModelId: (id: string) => void;
+  onSaveRiskModels: (models: RiskModelConfig[]) => void;
+  zoneSet: ZoneSet | null;
+  onSaveZoneSet: (zoneSet: ZoneSet) => void;
+  batchJobs: BatchJob[];
+  batchQueue: BatchQueue;
+  onOpenAnalysis: (analysisId: string) => void;
 }
 
+const DETECTOR_KINDS: DetectorKind[] = ['simulated', 'backend', 'onnx'];
+
+// Some browsers and drag sources leave File.type empty, so fall back to the name
+const VIDEO_EXTENSIONS = ['.mp4', '.m4v', '.mov', '.avi', '.mkv', '.webm', '.mpg', '.mpeg', '.3gp'];
+
+const isVideoFile = (file: File) =>
+  file.type ? file.type.startsWith('video/') : VIDEO_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
 export function Sidebar({
   locationName,
   setLocationName,
@@ -25,27 +56,73 @@ export function Sidebar({
   setSelectedLocation,
   videoFile,
   setVideoFile,
+  clipMetadata,
   onAnalyze,
   isAnalyzing,
   progress,
   errorMessage = '',
-  setErrorMessage
+  setErrorMessage,
+  detectorConfig,
+  setDetectorConfig,
+  backendDetection,
+  seedOverride,
+  setSeedOverride,
+  riskModels,
+  riskModelId,
+  setRiskModelId,
+  onSaveRiskModels,
+  zoneSet,
+  onSaveZoneSet,
+  batchJobs,
+  batchQueue,
+  onOpenAnalysis
 }: SidebarProps) {
   const [searchResults, setSearchResults] = useState<LocationResult[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [isLocating, setIsLocating] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [locationError, setLocationError] = useState('');
+  const [seedInput, setSeedInput] = useState(seedOverride?.toString() ?? '');
+  const [isEditingProfiles, setIsEditingProfiles] = useState(false);
+  const [isEditingZones, setIsEditingZones] = useState(false);
+  const latestSearch = useRef(0);
+  const selectedRiskModel = riskModels.find(m => m.id === riskModelId);
 
+  // Offline places show at once; online results (debounced, superseded
+  // queries rejecting with an AbortError) are added when they arrive
   const handleSearch = useCallback(async (query: string) => {
+    const searchId = ++latestSearch.current;
     setLocationName(query);
     setSelectedLocation(null);
-    if (query.length >= 3) {
-      const results = await searchLocations(query);
+    setLocationError('');
+
+    const local = await searchOffline(query);
+    if (searchId !== latestSearch.current) return;
+    setSearchResults(local);
+    setShowResults(local.length > 0);
+
+    const trimmed = query.trim();
+    if (trimmed.length < 3 || isOfflineMode()) {
+      cancelLocationSearch();
+      setIsSearching(false);
+      if (trimmed.length >= 3 && local.length === 0) setLocationError(`No offline places match "${trimmed}"`);
+      return;
+    }
+    setIsSearching(true);
+    try {
+      const results = mergeLocationResults(local, await searchLocations(query));
+      if (searchId !== latestSearch.current) return;
       setSearchResults(results);
       setShowResults(true);
-    } else {
-      setSearchResults([]);
-      setShowResults(false);
+      if (results.length === 0) setLocationError(`No places found for "${trimmed}"`);
+      setIsSearching(false);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      console.error('[geocode] Search failed:', error);
+      const message = (error as Error).message;
+      setLocationError(local.length > 0 ? `${message} Showing offline places.` : message);
+      setIsSearching(false);
     }
   }, [setLocationName, setSelectedLocation]);
 
@@ -58,11 +135,15 @@ export function Sidebar({
 
   const handleGetLiveLocation = async () => {
     setIsLocating(true);
-    const location = await getLiveLocation();
-    if (location) {
-      handleSelectLocation(location);
+    setLocationError('');
+    try {
+      handleSelectLocation(await getLiveLocation());
+    } catch (error) {
+      console.error('[geocode] Live location failed:', error);
+      setLocationError((error as Error).message);
+    } finally {
+      setIsLocating(false);
     }
-    setIsLocating(false);
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -75,22 +156,47 @@ export function Sidebar({
     }
   };
 
+  // One clip fills the form; several go to the batch queue with the selected location
+  const handleFiles = (fileList: FileList | null) => {
+    const all = Array.from(fileList ?? []);
+    const files = all.filter(isVideoFile);
+    const rejected = all.filter(f => !isVideoFile(f)).map(f => f.name);
+    setErrorMessage?.(rejected.length > 0 ? `Not a video file, skipped: ${rejected.join(', ')}` : '');
+    if (files.length === 1) {
+      setVideoFile(files[0]);
+    } else if (files.length > 1) {
+      batchQueue.add(files, selectedLocation);
+    }
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('video/')) {
-        setVideoFile(file);
-      }
-    }
+    handleFiles(e.dataTransfer.files);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleSelectDetector = (kind: DetectorKind) => {
+    if (kind === 'simulated' || kind === 'backend') {
+      setDetectorConfig({ kind });
+    }
+  };
+
+  const handleSeedChange = (value: string) => {
+    setSeedInput(value);
+    setSeedOverride(parseSeed(value));
+  };
+
+  const handleModelFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setVideoFile(e.target.files[0]);
+      setDetectorConfig({ kind: 'onnx', modelFile: e.target.files[0] });
     }
+    e.target.value = '';
   };
 
   return (
@@ -145,7 +251,7 @@ export function Sidebar({
             </div>
             <div>
               <span className="text-sm font-bold text-white tracking-wide">LOCATION TAG</span>
-              <p className="text-xs text-slate-500">Search or use GPS</p>
+              <p className="text-xs text-slate-500">Search, use GPS or click the map</p>
             </div>
           </div>
           
@@ -159,7 +265,11 @@ export function Sidebar({
               placeholder="Search intersection or address..."
               className="w-full pl-12 pr-12 py-4 bg-slate-800/80 border border-slate-700/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-red-500/50 focus:border-transparent transition-all text-sm"
             />
-            <Search className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+            {isSearching ? (
+              <Loader2 className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 animate-spin" />
+            ) : (
+              <Search className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+            )}
             
             {/* Search Results Dropdown */}
             <AnimatePresence>
@@ -176,9 +286,16 @@ export function Sidebar({
                       onClick={() => handleSelectLocation(result)}
                       className="w-full px-4 py-3 text-left hover:bg-slate-700/50 transition-colors border-b border-slate-700/50 last:border-0 group"
                     >
-                      <p className="text-sm text-white truncate group-hover:text-red-400 transition-colors">
-                        {result.displayName.split(',')[0]}
-                      </p>
+                      <div className="flex items-center gap-2">
+                        <p className="flex-1 min-w-0 text-sm text-white truncate group-hover:text-red-400 transition-colors">
+                          {result.displayName.split(',')[0]}
+                        </p>
+                        {result.source === 'gazetteer' && (
+                          <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-cyan-500/10 text-cyan-400 text-[10px] font-semibold flex items-center gap-1">
+                            <HardDrive className="w-3 h-3" /> Offline
+                          </span>
+                        )}
+                      </div>
                       <p className="text-xs text-slate-400 truncate mt-0.5">{result.displayName}</p>
                     </button>
                   ))}
@@ -187,6 +304,15 @@ export function Sidebar({
             </AnimatePresence>
           </div>
 
+          {locationError && (
+            <p className="text-xs text-amber-400 flex items-center gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" /> {locationError}
+            </p>
+          )}
+
+          {/* Re-run a pending search so it reflects the new places or mode */}
+          <GazetteerControls onChange={() => !selectedLocation && locationName && handleSearch(locationName)} />
+
           {/* GPS Button */}
           <button
             onClick={handleGetLiveLocation}
@@ -209,7 +335,9 @@ export function Sidebar({
             >
               <div className="w-3 h-3 bg-emerald-500 rounded-full animate-pulse" />
               <div className="flex-1 min-w-0">
-                <p className="text-xs text-emerald-400 font-medium">Location Selected</p>
+                <p className="text-xs text-emerald-400 font-medium">
+                  {selectedLocation.source === 'video' ? 'Location from Video GPS' : 'Location Selected'}
+                </p>
                 <p className="text-xs text-emerald-300/70 truncate">{selectedLocation.displayName.substring(0, 50)}...</p>
               </div>
               <button onClick={() => setSelectedLocation(null)} className="text-emerald-400 hover:text-emerald-300">
@@ -246,7 +374,8 @@ export function Sidebar({
           >
             <input
               type="file"
-              accept="video/*"
+              accept={['video/*', ...VIDEO_EXTENSIONS].join(',')}
+              multiple
               onChange={handleFileChange}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             />
@@ -264,6 +393,16 @@ export function Sidebar({
                   <div>
                     <p className="text-sm text-white font-semibold truncate px-4">{videoFile.name}</p>
                     <p className="text-xs text-slate-400 mt-1">{(videoFile.size / 1024 / 1024).toFixed(2)} MB • Ready to analyze</p>
+                    {clipMetadata?.recordedAt && (
+                      <p className="text-xs text-slate-500 mt-1 flex items-center justify-center gap-1">
+                        <Clock className="w-3 h-3" /> Recorded {clipMetadata.recordedAt.toLocaleString()}
+                      </p>
+                    )}
+                    {clipMetadata && clipMetadata.gpsTrack.length > 0 && (
+                      <p className="text-xs text-cyan-400 mt-1 flex items-center justify-center gap-1">
+                        <Route className="w-3 h-3" /> GPS route with {clipMetadata.gpsTrack.length} points
+                      </p>
+                    )}
                   </div>
                   <button
                     onClick={(e) => { e.stopPropagation(); setVideoFile(null); }}
@@ -279,14 +418,182 @@ export function Sidebar({
                   </div>
                   <div>
                     <p className="text-sm text-slate-300 font-medium">Drop video here or click to browse</p>
-                    <p className="text-xs text-slate-500 mt-1">Supports traffic camera footage</p>
+                    <p className="text-xs text-slate-500 mt-1">Drop several clips to queue a batch</p>
                   </div>
                 </div>
               )}
             </div>
           </div>
+
+          {/* Camera zones for the selected location */}
+          <div className="flex items-center gap-3 px-4 py-3 bg-slate-800/30 border border-slate-700/50 rounded-xl">
+            <Shapes className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            <p className="flex-1 min-w-0 text-xs text-slate-400 truncate">
+              {zoneSet && zoneSet.zones.length > 0
+                ? `Using ${zoneSet.zones.length} zone${zoneSet.zones.length !== 1 ? 's' : ''} from ${zoneSet.name}`
+                : 'No zones drawn — using frame-position rules'}
+            </p>
+            <button
+              onClick={() => setIsEditingZones(true)}
+              disabled={!videoFile || !selectedLocation}
+              title={!videoFile || !selectedLocation ? 'Select a location and upload footage first' : 'Draw zones on a still frame'}
+              className="px-3 py-1.5 text-xs text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {zoneSet ? 'Edit zones' : 'Draw zones'}
+            </button>
+          </div>
         </div>
 
+        <BatchQueuePanel
+          jobs={batchJobs}
+          queue={batchQueue}
+          selectedLocation={selectedLocation}
+          onOpenAnalysis={onOpenAnalysis}
+        />
+
+        {isEditingZones && videoFile && selectedLocation && (
+          <ZoneEditor
+            videoFile={videoFile}
+            location={selectedLocation}
+            zoneSet={zoneSet}
+            onClose={() => setIsEditingZones(false)}
+            onSave={(saved) => {
+              onSaveZoneSet(saved);
+              setIsEditingZones(false);
+            }}
+          />
+        )}
+
+        {/* Step 3: Detection Engine */}
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-red-500 to-orange-500 flex items-center justify-center shadow-lg">
+              <span className="text-sm font-bold text-white">3</span>
+            </div>
+            <div>
+              <span className="text-sm font-bold text-white tracking-wide">DETECTION ENGINE</span>
+              <p className="text-xs text-slate-500">Simulator, backend or local model</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {DETECTOR_KINDS.map((kind) => {
+              const isSelected = detectorConfig.kind === kind;
+              const className = `relative py-2 px-2 rounded-lg border text-xs font-medium text-center transition-colors ${
+                isSelected
+                  ? 'bg-red-500/15 border-red-500/50 text-red-300'
+                  : 'bg-slate-800/50 border-slate-700/50 text-slate-400 hover:text-white hover:border-slate-600'
+              }`;
+
+              // The ONNX option opens a file picker for the .onnx model
+              if (kind === 'onnx') {
+                return (
+                  <label key={kind} className={`${className} cursor-pointer`}>
+                    <input
+                      type="file"
+                      accept=".onnx"
+                      onChange={handleModelFileChange}
+                      className="hidden"
+                    />
+                    {DETECTOR_LABELS[kind]}
+                  </label>
+                );
+              }
+
+              const unavailable = kind === 'backend' && !backendDetection;
+              return (
+                <button
+                  key={kind}
+                  onClick={() => handleSelectDetector(kind)}
+                  disabled={unavailable}
+                  title={unavailable ? 'The server has no detection model' : undefined}
+                  className={`${className} disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-slate-400 disabled:hover:border-slate-700/50`}
+                >
+                  {DETECTOR_LABELS[kind]}
+                </button>
+              );
+            })}
+          </div>
+
+          {detectorConfig.kind === 'onnx' && (
+            <div className="flex items-center gap-3 px-4 py-3 bg-slate-800/50 border border-slate-700/50 rounded-xl">
+              <Cpu className="w-4 h-4 text-red-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-slate-300 font-medium truncate">{detectorConfig.modelFile.name}</p>
+                <p className="text-xs text-slate-500">{(detectorConfig.modelFile.size / 1024 / 1024).toFixed(1)} MB • runs in this browser</p>
+              </div>
+              <button onClick={() => setDetectorConfig({ kind: 'simulated' })} className="text-slate-400 hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {/* Seed for reproducible simulation runs */}
+          {detectorConfig.kind === 'simulated' && (
+            <div>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seedInput}
+                onChange={(e) => handleSeedChange(e.target.value)}
+                placeholder="Seed (blank = from video content)"
+                className="w-full px-4 py-3 bg-slate-800/80 border border-slate-700/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-red-500/50 focus:border-transparent transition-all text-xs font-mono"
+              />
+              {seedInput && seedOverride === null && (
+                <p className="text-xs text-red-400 mt-1">Seed must be a whole number up to 4294967295</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Step 4: Risk Profile */}
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-red-500 to-orange-500 flex items-center justify-center shadow-lg">
+              <span className="text-sm font-bold text-white">4</span>
+            </div>
+            <div>
+              <span className="text-sm font-bold text-white tracking-wide">RISK PROFILE</span>
+              <p className="text-xs text-slate-500">Calibration for the site type</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={riskModelId}
+              onChange={(e) => setRiskModelId(e.target.value)}
+              className="flex-1 min-w-0 px-4 py-3 bg-slate-800/80 border border-slate-700/50 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-red-500/50"
+            >
+              {riskModels.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setIsEditingProfiles(true)}
+              title="Edit risk profiles"
+              className="px-4 bg-slate-800/50 hover:bg-slate-700/50 border border-slate-700/50 rounded-xl text-slate-300 hover:text-white transition-colors"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+          </div>
+          {selectedRiskModel?.description && (
+            <p className="text-xs text-slate-500 -mt-2">{selectedRiskModel.description}</p>
+          )}
+        </div>
+
+        {isEditingProfiles && (
+          <RiskProfileEditor
+            models={riskModels}
+            initialId={riskModelId}
+            onClose={() => setIsEditingProfiles(false)}
+            onSave={(models, selectedId) => {
+              onSaveRiskModels(models);
+              setRiskModelId(selectedId);
+              setIsEditingProfiles(false);
+            }}
+          />
+        )}
+
         {/* Analysis Progress */}
         <AnimatePresence>
           {isAnalyzing && (
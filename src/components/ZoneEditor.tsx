@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Save, Trash2, Undo2, Check, Loader2, Shapes } from 'lucide-react';
+import { LocationResult, Zone, ZoneKind, ZoneSet } from '../types';
+import { openFrameSource } from '../utils/frameSource';
+import { ZONE_COLORS, ZONE_LABELS, createZoneId } from '../utils/zones';
+
+interface ZoneEditorProps {
+  videoFile: File;
+  location: LocationResult;
+  zoneSet: ZoneSet | null;
+  onSave: (zoneSet: ZoneSet) => void;
+  onClose: () => void;
+}
+
+const ZONE_KINDS = Object.keys(ZONE_LABELS) as ZoneKind[];
+
+/**
+ * Grab a still frame (about one second in) as an image URL
+ */
+async function captureStill(file: File): Promise<string> {
+  const source = await openFrameSource(file);
+  try {
+    const { frameRate, totalFrames } = source.metadata;
+    const frame = await source.readFrame(Math.min(totalFrames - 1, Math.round(frameRate)));
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    canvas.getContext('2d')?.putImageData(frame.pixels, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } finally {
+    source.close();
+  }
+}
+
+export function ZoneEditor({ videoFile, location, zoneSet, onSave, onClose }: ZoneEditorProps) {
+  const [still, setStill] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [zones, setZones] = useState<Zone[]>(zoneSet?.zones ?? []);
+  const [kind, setKind] = useState<ZoneKind>('crosswalk');
+  const [draft, setDraft] = useState<[number, number][]>([]);
+  const surfaceRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    captureStill(videoFile)
+      .then(url => { if (!cancelled) setStill(url); })
+      .catch(error => { if (!cancelled) setLoadError((error as Error).message); });
+    return () => { cancelled = true; };
+  }, [videoFile]);
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    // The second click of a double-click closes the polygon instead
+    if (e.detail > 1) return;
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    setDraft(prev => [...prev, [x, y]]);
+  };
+
+  const finishPolygon = () => {
+    if (draft.length < 3) return;
+    setZones(prev => [...prev, { id: createZoneId(), kind, points: draft }]);
+    setDraft([]);
+  };
+
+  const handleSave = () => {
+    onSave({
+      id: zoneSet?.id ?? createZoneId(),
+      name: zoneSet?.name ?? location.displayName.split(',')[0],
+      lat: location.lat,
+      lon: location.lon,
+      zones,
+      updatedAt: new Date().toISOString()
+    });
+  };
+
+  const toPoints = (points: [number, number][]) => points.map(([x, y]) => `${x},${y}`).join(' ');
+
+  return (
+    <div className="fixed inset-0 z-[3000] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-4xl bg-slate-900 border border-slate-700/50 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[95vh]"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <Shapes className="w-5 h-5 text-red-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-white">Camera Zones</h2>
+              <p className="text-xs text-slate-400 truncate">{location.displayName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white rounded-lg hover:bg-slate-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Zone kind picker and drawing controls */}
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 border-b border-slate-800">
+          {ZONE_KINDS.map(k => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                kind === k ? 'text-white border-white/40 bg-slate-700' : 'text-slate-400 border-slate-700 hover:text-white'
+              }`}
+            >
+              <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: ZONE_COLORS[k] }} />
+              {ZONE_LABELS[k]}
+            </button>
+          ))}
+          <div className="flex-1" />
+          <button
+            onClick={() => setDraft(prev => prev.slice(0, -1))}
+            disabled={draft.length === 0}
+            className="px-3 py-1.5 rounded-lg text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 flex items-center gap-1"
+          >
+            <Undo2 className="w-3 h-3" /> Undo point
+          </button>
+          <button
+            onClick={finishPolygon}
+            disabled={draft.length < 3}
+            className="px-3 py-1.5 rounded-lg text-xs text-emerald-300 bg-emerald-500/10 hover:bg-emerald-500/20 disabled:opacity-40 flex items-center gap-1"
+          >
+            <Check className="w-3 h-3" /> Close polygon
+          </button>
+        </div>
+
+        {/* Still frame with polygons */}
+        <div className="flex-1 overflow-auto p-5">
+          {loadError ? (
+            <p className="text-sm text-red-400">{loadError}</p>
+          ) : !still ? (
+            <div className="flex items-center justify-center gap-2 py-24 text-slate-400 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" /> Extracting still frame...
+            </div>
+          ) : (
+            <div className="relative select-none">
+              <img src={still} alt="Still frame from the uploaded video" className="w-full rounded-lg" draggable={false} />
+              <svg
+                ref={surfaceRef}
+                viewBox="0 0 1 1"
+                preserveAspectRatio="none"
+                onClick={handleClick}
+                onDoubleClick={finishPolygon}
+                className="absolute inset-0 w-full h-full cursor-crosshair"
+              >
+                {zones.map(zone => (
+                  <polygon
+                    key={zone.id}
+                    points={toPoints(zone.points)}
+                    fill={ZONE_COLORS[zone.kind]}
+                    fillOpacity={0.25}
+                    stroke={ZONE_COLORS[zone.kind]}
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+                {draft.length > 0 && (
+                  <polyline
+                    points={toPoints(draft)}
+                    fill="none"
+                    stroke={ZONE_COLORS[kind]}
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {draft.map(([x, y], i) => (
+                  <circle key={i} cx={x} cy={y} r={0.006} fill={ZONE_COLORS[kind]} />
+                ))}
+              </svg>
+            </div>
+          )}
+          <p className="text-xs text-slate-500 mt-3">
+            Click to add corners, double-click or “Close polygon” to finish. Road users are placed by the bottom-center of their box.
+          </p>
+        </div>
+
+        {/* Zone list and save */}
+        <div className="p-5 border-t border-slate-800 flex items-center gap-3">
+          <div className="flex-1 flex flex-wrap gap-2">
+            {zones.length === 0 && <span className="text-xs text-slate-500">No zones drawn yet</span>}
+            {zones.map((zone, i) => (
+              <span key={zone.id} className="inline-flex items-center gap-2 px-2 py-1 bg-slate-800 rounded-lg text-xs text-slate-300">
+                <span className="w-2 h-2 rounded-full" style={{ background: ZONE_COLORS[zone.kind] }} />
+                {ZONE_LABELS[zone.kind]} {i + 1}
+                <button onClick={() => setZones(prev => prev.filter(z => z.id !== zone.id))} className="text-slate-500 hover:text-red-400">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-300 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-gradient-to-r from-red-600 to-orange-500 text-white text-sm font-semibold rounded-lg flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" /> Save for this camera
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
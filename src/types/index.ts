@@ -1,55 +1,158 @@
 // Types matching the Python detection.py and risk_logic.py structures
+// Analysis result types are inferred from the runtime schemas in schema.ts
 
-export interface Detection {
-  className: string;
-  confidence: number;
-  bbox: [number, number, number, number]; // [x1, y1, x2, y2]
-  classId: number;
-  center: [number, number]; // [cx, cy]
+import { z } from 'zod';
+import {
+  aggregationConfigSchema, aggregationStrategySchema, aggregationSummarySchema, analysisJobEventSchema,
+  analysisLogEntrySchema, analysisProgressSchema, analysisResponseSchema,
+  conflictPairSchema, detectionSchema, frameAnalysisSchema, frameStatsSchema, gpsPointSchema, incidentSchema, incidentTypeSchema,
+  riskAnalysisSchema, riskLevelSchema, riskModelConfigSchema, roadUserCategorySchema, signalStateSchema,
+  trackSummarySchema, videoMetadataSchema, violationDataSchema, zoneKindSchema, zoneSchema,
+} from './schema';
+
+export type Detection = z.infer<typeof detectionSchema>;
+
+// Lamp lit on a traffic light
+export type SignalState = z.infer<typeof signalStateSchema>;
+
+// A vehicle crossing the stop line against a red light or without stopping at a stop sign
+export interface SignalViolation {
+  kind: 'red-light' | 'stop-sign';
+  trackId: number;
+  timestamp: number; // seconds, when the stop line was crossed
+  speed: number; // px/s at the crossing
 }
 
-export interface FrameAnalysis {
+// Road-user pair whose trajectories signal a potential collision
+export type ConflictPair = z.infer<typeof conflictPairSchema>;
+
+export type RoadUserCategory = z.infer<typeof roadUserCategorySchema>;
+
+// Lifetime of one tracked road user across the video
+export type TrackSummary = z.infer<typeof trackSummarySchema>;
+
+export type FrameAnalysis = z.infer<typeof frameAnalysisSchema>;
+
+// Real properties of an uploaded video, read by the frame source
+export type VideoMetadata = z.infer<typeof videoMetadataSchema>;
+
+// A decoded frame sampled from the video
+export interface SampledFrame {
   frameIndex: number;
-  score: number;
-  detections: Detection[];
-  vehicleCount: number;
-  personCount: number;
-  overlaps: number;
-  proximityRisks: number;
+  timestamp: number; // seconds
+  width: number;
+  height: number;
+  pixels: ImageData;
+}
+
+// State of a resumable video upload to the backend
+export type UploadState = 'uploading' | 'paused' | 'retrying' | 'done';
+
+export interface UploadProgress {
+  state: UploadState;
+  uploadedBytes: number;
+  totalBytes: number;
+  attempt: number; // retries of the current chunk, 0 on the first try
 }
 
-export interface ViolationData {
-  type: string;
-  count: number;
-  severity: 'low' | 'medium' | 'high';
-  icon?: string;
+// Progress of a running analysis
+export interface AnalysisProgress extends z.infer<typeof analysisProgressSchema> {
+  upload?: UploadProgress; // while the video is sent to the backend
 }
 
-export interface RiskAnalysis {
+// Line of the analysis log shown while a clip is processed
+export type AnalysisLogEntry = z.infer<typeof analysisLogEntrySchema>;
+
+// Server-sent event of a backend analysis job
+export type AnalysisJobEvent = z.infer<typeof analysisJobEventSchema>;
+
+// Detection backends that can feed the analysis pipeline
+export type DetectorKind = 'simulated' | 'backend' | 'onnx';
+
+export type DetectorConfig =
+  | { kind: 'simulated' }
+  | { kind: 'backend' }
+  | { kind: 'onnx'; modelFile: File };
+
+// A stretch of consecutive risky frames, or a single signal violation
+export type IncidentType = z.infer<typeof incidentTypeSchema>;
+
+export type Incident = z.infer<typeof incidentSchema>;
+
+export type ViolationData = z.infer<typeof violationDataSchema>;
+
+// Areas of the camera view drawn by the user
+export type ZoneKind = z.infer<typeof zoneKindSchema>;
+
+export type Zone = z.infer<typeof zoneSchema>;
+
+// Zones for one camera position, reused for every clip from that location
+export interface ZoneSet {
   id: string;
-  locationName: string;
+  name: string;
   lat: number;
   lon: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  riskScore: number;
-  timestamp: Date;
-  videoName: string;
-  violations: ViolationData[];
-  frameStats: {
-    totalFrames: number;
-    processedFrames: number;
-    avgVehicles: number;
-    avgPersons: number;
-    maxScore: number;
-    minScore: number;
-  };
-  isValidStreetFootage?: boolean;
+  zones: Zone[];
+  updatedAt: string; // ISO timestamp
 }
 
+export type RiskLevel = z.infer<typeof riskLevelSchema>;
+
+// Ways of turning the frame score series into one video score
+export type AggregationStrategy = z.infer<typeof aggregationStrategySchema>;
+
+export type AggregationConfig = z.infer<typeof aggregationConfigSchema>;
+
+// Video score under every strategy, so sensitivity to the choice is visible
+export type AggregationSummary = z.infer<typeof aggregationSummarySchema>;
+
+// Calibration of the frame scoring and risk level cut-offs
+export type RiskModelConfig = z.infer<typeof riskModelConfigSchema>;
+
+export type FrameStats = z.infer<typeof frameStatsSchema>;
+
+// Camera position at a moment of the clip, read from its metadata
+export type GpsPoint = z.infer<typeof gpsPointSchema>;
+
+export type RiskAnalysis = z.infer<typeof riskAnalysisSchema>;
+
+// RiskAnalysis on the wire, with the timestamp as an ISO string
+export type AnalysisResponse = z.infer<typeof analysisResponseSchema>;
+
+// One clip in the batch analysis queue
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  location: LocationResult | null; // jobs wait in the queue until they have one
+  status: BatchJobStatus;
+  progress: number; // 0-100
+  error?: string;
+  analysisId?: string; // set when done
+}
+
+// Where a location came from
+export type LocationSource = 'geocoder' | 'gazetteer' | 'video';
+
 export interface LocationResult {
   lat: number;
   lon: number;
   displayName: string;
+  source?: LocationSource;
+}
+
+// Places a survey team keeps for offline search
+export type GazetteerKind = 'intersection' | 'landmark' | 'camera' | 'place';
+
+export interface GazetteerEntry {
+  id: string;
+  name: string;
+  kind: GazetteerKind;
+  lat: number;
+  lon: number;
+  aliases: string[]; // other names the place is searched by
+  address?: string;
 }
 
 export interface CameraResult {
@@ -0,0 +1,268 @@
+// Runtime schemas for analysis results, shared by the browser and the server.
+// The TypeScript types in index.ts are inferred from these, so the shape is
+// written once and every payload that crosses a trust boundary (backend
+// responses, imports, request fields) can be checked against it.
+
+import { z } from 'zod';
+
+const point = z.tuple([z.number(), z.number()]);
+const indexPair = z.tuple([z.number().int(), z.number().int()]);
+const severity = z.enum(['low', 'medium', 'high']);
+
+// Lamp lit on a traffic light
+export const signalStateSchema = z.enum(['red', 'yellow', 'green', 'unknown']);
+
+export const detectionSchema = z.object({
+  className: z.string(),
+  confidence: z.number(),
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]), // [x1, y1, x2, y2]
+  classId: z.number().int(),
+  center: point, // [cx, cy]
+  trackId: z.number().int().optional(), // assigned by the tracker, stable across frames
+  velocity: point.optional(), // px/s, set once a track has moved between frames
+  signalState: signalStateSchema.optional(), // traffic lights only, read from the crop color
+});
+
+// Road-user pair whose trajectories signal a potential collision
+export const conflictPairSchema = z.object({
+  trackIds: indexPair,
+  kind: z.enum(['vehicle-vehicle', 'vehicle-person']),
+  ttc: z.number().nullable(), // time-to-collision, seconds
+  pet: z.number().nullable(), // post-encroachment time, seconds
+});
+
+export const roadUserCategorySchema = z.enum(['vehicle', 'person', 'other']);
+
+// Lifetime of one tracked road user across the video
+export const trackSummarySchema = z.object({
+  trackId: z.number().int(),
+  className: z.string(),
+  category: roadUserCategorySchema,
+  firstSeen: z.number(), // seconds
+  lastSeen: z.number(), // seconds
+  frameCount: z.number().int(),
+});
+
+export const frameAnalysisSchema = z.object({
+  frameIndex: z.number().int(),
+  timestamp: z.number(), // seconds from start of video
+  score: z.number(),
+  detections: z.array(detectionSchema),
+  vehicleCount: z.number().int(),
+  personCount: z.number().int(),
+  overlaps: z.number(), // static box overlaps between vehicles without trajectories yet
+  proximityRisks: z.number(),
+  overlapPairs: z.array(indexPair), // indices into detections of each overlapping vehicle pair
+  proximityPairs: z.array(indexPair), // indices into detections: [vehicle, person]
+  outsideCrosswalk: z.array(z.number().int()), // track IDs of pedestrians on the carriageway away from crosswalks
+  signalState: signalStateSchema.nullable(), // state of the governing traffic light, null when none is visible
+  stopSignVisible: z.boolean(),
+  conflicts: z.number(),
+  conflictPairs: z.array(conflictPairSchema),
+  minTtc: z.number().nullable(),
+  minPet: z.number().nullable(),
+});
+
+// Real properties of an uploaded video, read by the frame source
+export const videoMetadataSchema = z.object({
+  duration: z.number(), // seconds
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  frameRate: z.number().positive(),
+  totalFrames: z.number().int(),
+});
+
+// A stretch of consecutive risky frames, or a single signal violation
+export const incidentTypeSchema = z.enum([
+  'vehicle-pedestrian-conflict',
+  'vehicle-conflict',
+  'pedestrian-proximity',
+  'high-risk-frames',
+  'red-light',
+  'stop-sign',
+]);
+
+export const incidentSchema = z.object({
+  id: z.string(),
+  type: incidentTypeSchema,
+  startTime: z.number(), // seconds
+  endTime: z.number(), // seconds
+  peakScore: z.number(),
+  peakFrameIndex: z.number().int(),
+  trackIds: z.array(z.number().int()), // road users involved
+  severity,
+});
+
+export const violationDataSchema = z.object({
+  type: z.string(),
+  count: z.number(),
+  severity,
+  icon: z.string().optional(),
+});
+
+// Areas of the camera view drawn by the user
+export const zoneKindSchema = z.enum(['crosswalk', 'carriageway', 'sidewalk', 'bus_stop', 'stop_line']);
+
+export const zoneSchema = z.object({
+  id: z.string(),
+  kind: zoneKindSchema,
+  points: z.array(point), // polygon, normalised 0-1 frame coordinates
+});
+
+export const riskLevelSchema = z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']);
+
+// Ways of turning the frame score series into one video score
+export const aggregationStrategySchema = z.enum(['mean', 'percentile', 'peakWeighted', 'ewmMax', 'timeAboveThreshold']);
+
+export const aggregationConfigSchema = z.object({
+  strategy: aggregationStrategySchema,
+  percentile: z.number(), // e.g. 90 for P90
+  ewmHalfLife: z.number(), // seconds, for the exponentially-weighted moving maximum
+  timeAboveThreshold: z.number(), // frame score counted as "risky" time
+});
+
+// Video score under every strategy, so sensitivity to the choice is visible
+export const aggregationSummarySchema = z.object({
+  strategy: aggregationStrategySchema,
+  scores: z.record(aggregationStrategySchema, z.number()),
+});
+
+// Calibration of the frame scoring and risk level cut-offs
+export const riskModelConfigSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  builtIn: z.boolean().optional(),
+  weights: z.object({
+    vehicle: z.number(), // per vehicle in frame
+    person: z.number(), // per person in frame
+    conflict: z.number(), // per vehicle conflict (TTC/PET or overlap)
+    proximity: z.number(), // per vehicle-pedestrian proximity
+  }),
+  proximityRadius: z.number(), // fraction of frame width counted as "near"
+  thresholds: z.object({
+    medium: z.number(), // aggregated score at which MEDIUM starts
+    high: z.number(),
+    critical: z.number(),
+  }),
+  aggregation: aggregationConfigSchema,
+});
+
+export const frameStatsSchema = z.object({
+  totalFrames: z.number().int(),
+  processedFrames: z.number().int(),
+  avgVehicles: z.number(),
+  avgPersons: z.number(),
+  maxScore: z.number(),
+  minScore: z.number(),
+  uniqueVehicles: z.number().int().optional(), // distinct tracks, not per-frame counts
+  uniquePersons: z.number().int().optional(),
+});
+
+// Camera position logged in the video's own metadata
+export const gpsPointSchema = z.object({
+  time: z.number(), // seconds from start of video
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  altitude: z.number().optional(), // metres
+  speed: z.number().optional(), // m/s
+});
+
+// Fields shared by the wire format and the client model
+const analysisFields = {
+  id: z.string().min(1),
+  locationName: z.string(),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  riskLevel: riskLevelSchema,
+  riskScore: z.number(),
+  videoName: z.string(),
+  violations: z.array(violationDataSchema),
+  incidents: z.array(incidentSchema).optional(), // individual events behind the violation counts
+  frameStats: frameStatsSchema,
+  tracks: z.array(trackSummarySchema).optional(),
+  frames: z.array(frameAnalysisSchema).optional(), // per-frame results, kept so the video can be re-scored
+  riskModel: riskModelConfigSchema.optional(), // profile the score was computed with
+  aggregation: aggregationSummarySchema.optional(),
+  zones: z.array(zoneSchema).optional(), // zones the rules were evaluated against
+  video: videoMetadataSchema.optional(),
+  detector: z.string().optional(),
+  seed: z.number().int().optional(), // PRNG seed of the simulated pipeline, for exact replay
+  isValidStreetFootage: z.boolean().optional(),
+  recordedAt: z.iso.datetime({ offset: true }).optional(), // when the camera recorded the clip, from its metadata
+  gpsTrack: z.array(gpsPointSchema).optional(), // route of moving footage, so risk can be placed along it
+};
+
+// Analysis as sent by the server and written to files: timestamp as an ISO string
+export const analysisResponseSchema = z.object({
+  ...analysisFields,
+  timestamp: z.iso.datetime({ offset: true }),
+});
+
+// Analysis as held by the client
+export const riskAnalysisSchema = z.object({
+  ...analysisFields,
+  timestamp: z.date(),
+});
+
+/**
+ * Turn a wire record into a map entry
+ */
+export function fromAnalysisResponse(response: z.infer<typeof analysisResponseSchema>): z.infer<typeof riskAnalysisSchema> {
+  return { ...response, timestamp: new Date(response.timestamp) };
+}
+
+/**
+ * Wire form of a map entry, as the server sends it and files store it
+ */
+export function toAnalysisResponse(analysis: z.infer<typeof riskAnalysisSchema>): z.infer<typeof analysisResponseSchema> {
+  return { ...analysis, timestamp: analysis.timestamp.toISOString() };
+}
+
+// Corrected position of a stored analysis, sent with PATCH /api/analyses/:id
+export const analysisLocationSchema = z.object({
+  lat: analysisFields.lat,
+  lon: analysisFields.lon,
+});
+
+// Progress of a running analysis; the server streams it while analysing an upload
+export const analysisProgressSchema = z.object({
+  stage: z.enum(['uploading', 'loading', 'detecting', 'scoring', 'done']),
+  processedFrames: z.number().int(),
+  plannedFrames: z.number().int(),
+  percent: z.number(), // 0-100
+  interimScore: z.number().optional(), // video score over the frames processed so far
+  lastFrame: z.object({
+    frameIndex: z.number().int(),
+    timestamp: z.number(), // seconds
+    vehicles: z.number().int(),
+    persons: z.number().int(),
+    conflicts: z.number(),
+    score: z.number(),
+  }).optional(),
+});
+
+export const analysisLogEntrySchema = z.object({
+  time: z.iso.datetime({ offset: true }),
+  level: z.enum(['info', 'warn', 'error']),
+  message: z.string(),
+});
+
+// Server-sent events of a backend analysis job
+export const analysisJobEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('progress'), progress: analysisProgressSchema }),
+  z.object({ type: z.literal('log'), entry: analysisLogEntrySchema }),
+  z.object({ type: z.literal('done'), analysis: analysisResponseSchema }),
+  z.object({ type: z.literal('failed'), error: z.string() }),
+]);
+
+/**
+ * Validate untrusted data, throwing an error that names every bad field
+ */
+export function parseWithSchema<T>(schema: z.ZodType<T>, data: unknown, what: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid ${what}:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,118 @@
+/**
+ * aggregation.ts - Video Score Aggregation Strategies
+ *
+ * The original pipeline averages frame scores, which lets a few seconds
+ * of near-misses disappear into minutes of empty road. These strategies
+ * weight the riskiest moments differently; every one is computed so the
+ * results can show how sensitive the level is to the choice.
+ */
+
+import { AggregationConfig, AggregationStrategy } from '../types';
+
+export const DEFAULT_AGGREGATION: AggregationConfig = {
+  strategy: 'mean',
+  percentile: 90,
+  ewmHalfLife: 2,
+  timeAboveThreshold: 60,
+};
+
+// timeAboveThreshold yields a share of time, not a score, so it has its
+// own cut-offs: percent of the video spent above the risky-frame score
+export const TIME_SHARE_THRESHOLDS = { medium: 10, high: 25, critical: 50 };
+
+export const AGGREGATION_STRATEGIES: AggregationStrategy[] = [
+  'mean',
+  'percentile',
+  'peakWeighted',
+  'ewmMax',
+  'timeAboveThreshold',
+];
+
+/**
+ * Display name of a strategy under the given parameters
+ */
+export function describeAggregation(strategy: AggregationStrategy, config: AggregationConfig): string {
+  switch (strategy) {
+    case 'mean':
+      return 'Mean frame score';
+    case 'percentile':
+      return `P${config.percentile} frame score`;
+    case 'peakWeighted':
+      return 'Peak-weighted mean';
+    case 'ewmMax':
+      return `Moving max (EWM, ${config.ewmHalfLife}s half-life)`;
+    case 'timeAboveThreshold':
+      return `% of time above ${config.timeAboveThreshold}`;
+  }
+}
+
+function mean(scores: number[]): number {
+  return scores.reduce((a, b) => a + b, 0) / scores.length;
+}
+
+/**
+ * Linear-interpolated percentile (same as numpy.percentile default)
+ */
+function percentile(scores: number[], p: number): number {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Mean where each frame is weighted by its own score, so risky frames count more
+ */
+function peakWeighted(scores: number[]): number {
+  const total = scores.reduce((a, b) => a + b, 0);
+  if (total === 0) return 0;
+  return scores.reduce((sum, s) => sum + s * s, 0) / total;
+}
+
+/**
+ * Maximum of the exponentially-weighted moving average over video time.
+ * A sustained risky stretch scores high; a single spike is damped.
+ */
+function ewmMax(scores: number[], timestamps: number[], halfLife: number): number {
+  let average = scores[0];
+  let peak = average;
+  for (let i = 1; i < scores.length; i++) {
+    const dt = Math.max(0, timestamps[i] - timestamps[i - 1]);
+    const alpha = 1 - Math.pow(0.5, dt / Math.max(halfLife, 1e-3));
+    average += alpha * (scores[i] - average);
+    peak = Math.max(peak, average);
+  }
+  return peak;
+}
+
+/**
+ * Share of video time (0-100) spent at or above the threshold.
+ * Frames are sampled at a fixed stride, so each stands for equal time.
+ */
+function timeAboveThreshold(scores: number[], threshold: number): number {
+  return (scores.filter(s => s >= threshold).length / scores.length) * 100;
+}
+
+/**
+ * Score the series under every strategy
+ * Timestamps default to one second apart when not known
+ */
+export function computeAggregates(
+  frameScores: number[],
+  config: AggregationConfig,
+  timestamps: number[] = frameScores.map((_, i) => i)
+): Record<AggregationStrategy, number> {
+  if (frameScores.length === 0) {
+    return { mean: 0, percentile: 0, peakWeighted: 0, ewmMax: 0, timeAboveThreshold: 0 };
+  }
+
+  const round = (value: number) => Math.round(value);
+  return {
+    mean: round(mean(frameScores)),
+    percentile: round(percentile(frameScores, config.percentile)),
+    peakWeighted: round(peakWeighted(frameScores)),
+    ewmMax: round(ewmMax(frameScores, timestamps, config.ewmHalfLife)),
+    timeAboveThreshold: round(timeAboveThreshold(frameScores, config.timeAboveThreshold)),
+  };
+}
@@ -5,25 +5,45 @@
  * Simulates the video analysis pipeline using detection + risk logic
  */
 
-import { FrameAnalysis, ViolationData } from '../types';
-import { simulateYoloDetection, getScenarioForFrame } from './detection';
+import { AggregationSummary, AnalysisProgress, FrameAnalysis, FrameStats, Incident, RiskAnalysis, RiskModelConfig, TrackSummary, VideoMetadata, ViolationData, Zone } from '../types';
+import { Detector, createSimulatedDetector } from './detectors';
+import { FrameSource, openFrameSource } from './frameSource';
+import { seedFromFile } from './random';
+import { createTracker, countUniqueRoadUsers } from './tracking';
 import { computeFrameRisk, aggregateVideoRisk, generateViolations } from './riskLogic';
+import { DEFAULT_RISK_MODEL } from './riskProfiles';
+import { annotateSignals, detectSignalViolations } from './signals';
+import { extractIncidents } from './incidents';
 
-interface AnalysisResult {
+export interface AnalysisResult {
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   riskScore: number;
+  aggregation: AggregationSummary;
   violations: ViolationData[];
-  frameStats: {
-    totalFrames: number;
-    processedFrames: number;
-    avgVehicles: number;
-    avgPersons: number;
-    maxScore: number;
-    minScore: number;
-  };
+  incidents: Incident[];
+  frameStats: FrameStats;
+  tracks: TrackSummary[];
+  frames: FrameAnalysis[];
+  riskModel: RiskModelConfig;
+  video: VideoMetadata;
+  detector: string;
+  seed: number;
   isValidStreetFootage: boolean;
 }
 
+export interface AnalysisOptions {
+  maxFrames?: number;
+  frameSkip?: number;
+  detector?: Detector;
+  // Seed for the simulated pipeline; defaults to the file's content hash
+  seed?: number;
+  riskModel?: RiskModelConfig;
+  // Zones drawn for this camera; empty falls back to the lower-half rule
+  zones?: Zone[];
+  // Stops the run between frames
+  signal?: AbortSignal;
+}
+
 /**
  * Analyze a video file and return risk assessment
  * 
@@ -32,110 +52,250 @@ interface AnalysisResult {
  * 2. Backend runs YOLO frame-by-frame
  * 3. Returns aggregated results
  * 
- * For frontend demo, we simulate realistic analysis
+ * The video is decoded in the browser so frame size, timing and frame
+ * counts are real; detections come from the configured Detector
+ * (simulated by default for the frontend demo)
  */
 export async function analyzeVideo(
   file: File,
   onProgress?: (progress: number) => void,
-  maxFrames: number = 50,
-  frameSkip: number = 3
+  options: AnalysisOptions = {}
 ): Promise<AnalysisResult> {
-  console.log(`[analysis] Starting analysis of: ${file.name}`);
+  const seed = options.seed ?? await seedFromFile(file);
+  const detector = options.detector ?? createSimulatedDetector(seed);
   
-  // Simulated video properties (in real app, would extract from video metadata)
-  const frameWidth = 1920;
-  const frameHeight = 1080;
-  const totalEstimatedFrames = maxFrames * frameSkip;
+  // Decode the video to read its real properties
+  const source = await openFrameSource(file);
+  try {
+    return await runAnalysis(source, file.name, detector, seed, options, p => onProgress?.(p.percent));
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * Sample, detect, track and score an opened video
+ * Shared by analyzeVideo and the analysis worker, which reads frames
+ * from the page instead of decoding them itself
+ */
+export async function runAnalysis(
+  source: Pick<FrameSource, 'metadata' | 'frames'>,
+  name: string,
+  detector: Detector,
+  seed: number,
+  options: Omit<AnalysisOptions, 'detector' | 'seed'> = {},
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AnalysisResult> {
+  const { maxFrames = 50, frameSkip = 3, riskModel = DEFAULT_RISK_MODEL, zones = [], signal } = options;
+  console.log(`[analysis] Starting analysis of: ${name} with ${detector.label} (seed ${seed})`);
+  
+  const video = source.metadata;
+  const { width: frameWidth, height: frameHeight, totalFrames } = video;
+  const plannedFrames = Math.min(maxFrames, Math.ceil(totalFrames / frameSkip));
   
   const frameAnalyses: FrameAnalysis[] = [];
-  const frameScores: number[] = [];
+  const tracker = createTracker();
+  onProgress?.({ stage: 'detecting', processedFrames: 0, plannedFrames, percent: 0 });
   
-  // Simulate frame-by-frame processing
-  for (let frameIndex = 0; frameIndex < totalEstimatedFrames; frameIndex++) {
-    // Skip frames as in Python version
-    if (frameIndex % frameSkip !== 0) continue;
-    
-    // Update progress
-    const progress = Math.min(95, Math.round((frameIndex / totalEstimatedFrames) * 100));
-    onProgress?.(progress);
+  // Frame-by-frame processing, skipping frames as in Python version
+  for await (const frame of source.frames(frameSkip, maxFrames)) {
+    signal?.throwIfAborted();
     
-    // Simulate processing delay (faster than real YOLO but gives UI feedback)
-    await new Promise(resolve => setTimeout(resolve, 50));
+    // Run YOLO (or the simulator) on this frame
+    const detections = annotateSignals(await detector.detect(frame, video), frame.pixels);
     
-    // Get scenario intensity for this frame (creates realistic variation)
-    const scenario = getScenarioForFrame(frameIndex, totalEstimatedFrames);
-    
-    // Simulate YOLO detection
-    const detections = simulateYoloDetection(frameWidth, frameHeight, scenario);
+    // Link detections to road users seen in earlier frames
+    const tracked = tracker.update(detections, frame.timestamp);
     
     // Compute frame risk score (using actual Python logic)
-    const frameAnalysis = computeFrameRisk(detections, frameWidth, frameHeight);
-    frameAnalysis.frameIndex = frameIndex;
+    const frameAnalysis = computeFrameRisk(tracked, frameWidth, frameHeight, riskModel, zones);
+    frameAnalysis.frameIndex = frame.frameIndex;
+    frameAnalysis.timestamp = frame.timestamp;
     
     frameAnalyses.push(frameAnalysis);
-    frameScores.push(frameAnalysis.score);
     
-    // Check max frames limit
-    if (frameAnalyses.length >= maxFrames) break;
+    // Report the frame and the video score so far
+    onProgress?.({
+      stage: 'detecting',
+      processedFrames: frameAnalyses.length,
+      plannedFrames,
+      percent: Math.min(95, Math.round((frameAnalyses.length / plannedFrames) * 100)),
+      interimScore: aggregateVideoRisk(
+        frameAnalyses.map(f => f.score),
+        riskModel,
+        frameAnalyses.map(f => f.timestamp)
+      ).riskScore,
+      lastFrame: {
+        frameIndex: frame.frameIndex,
+        timestamp: frame.timestamp,
+        vehicles: frameAnalysis.vehicleCount,
+        persons: frameAnalysis.personCount,
+        conflicts: frameAnalysis.conflicts,
+        score: frameAnalysis.score,
+      },
+    });
   }
   
+  signal?.throwIfAborted();
+  onProgress?.({ stage: 'scoring', processedFrames: frameAnalyses.length, plannedFrames, percent: 97 });
+  
+  // Count each road user once per video using track lifetimes
+  const tracks = tracker.summarize();
+  const scored = scoreFrames(frameAnalyses, video, tracks, riskModel, zones);
+  
   // Final progress update
-  onProgress?.(100);
+  onProgress?.({ stage: 'done', processedFrames: frameAnalyses.length, plannedFrames, percent: 100 });
   
   // Handle empty analysis
   if (frameAnalyses.length === 0) {
-    console.log(`[analysis] No frames processed for ${file.name}. Defaulting to LOW, 0.`);
+    console.log(`[analysis] No frames processed for ${name}. Defaulting to LOW, 0.`);
+    return {
+      ...scored,
+      tracks,
+      frames: frameAnalyses,
+      riskModel,
+      video,
+      detector: detector.label,
+      seed,
+      isValidStreetFootage: false
+    };
+  }
+  
+  // Validate street/road footage by checking for vehicles and/or pedestrians
+  const hasVehicles = frameAnalyses.some(f => f.vehicleCount > 0);
+  const hasPersons = frameAnalyses.some(f => f.personCount > 0);
+  
+  // Valid street footage should have vehicles or pedestrians (at least 0.5 average vehicles or 1+ person frames)
+  const isValidStreetFootage = hasVehicles || (hasPersons && frameAnalyses.length > 5);
+  
+  console.log(`[analysis] Finished ${name}: level=${scored.riskLevel}, score=${scored.riskScore}, model=${riskModel.id}, isValidFootage=${isValidStreetFootage}`);
+  
+  return {
+    ...scored,
+    tracks,
+    frames: frameAnalyses,
+    riskModel,
+    video,
+    detector: detector.label,
+    seed,
+    isValidStreetFootage
+  };
+}
+
+/**
+ * Log line for a progress update, or null when it adds nothing new
+ * Used for the loading overlay log in the browser and on the server
+ */
+export function describeProgress(progress: AnalysisProgress, previous: AnalysisProgress | null): string | null {
+  const { stage, lastFrame, interimScore } = progress;
+  if (stage === 'detecting' && lastFrame && lastFrame.frameIndex !== previous?.lastFrame?.frameIndex) {
+    const counts = `${lastFrame.vehicles} vehicle${lastFrame.vehicles === 1 ? '' : 's'}, ${lastFrame.persons} person${lastFrame.persons === 1 ? '' : 's'}`;
+    const conflicts = lastFrame.conflicts > 0 ? `, ${lastFrame.conflicts} conflict${lastFrame.conflicts === 1 ? '' : 's'}` : '';
+    const video = interimScore !== undefined ? ` (video ${interimScore})` : '';
+    return `Frame ${lastFrame.frameIndex} @ ${lastFrame.timestamp.toFixed(1)}s: ${counts}${conflicts}, score ${lastFrame.score}${video}`;
+  }
+  if (stage === previous?.stage) return null;
+  switch (stage) {
+    case 'uploading': return 'Uploading video';
+    case 'loading': return 'Loading detector';
+    case 'detecting': return `Sampling up to ${progress.plannedFrames} frames`;
+    case 'scoring': return `Scoring ${progress.processedFrames} frames`;
+    case 'done': return 'Analysis complete';
+  }
+}
+
+/**
+ * Aggregate scored frames into the level, violations, incidents and frame statistics
+ */
+function scoreFrames(
+  frameAnalyses: FrameAnalysis[],
+  video: VideoMetadata,
+  tracks: TrackSummary[],
+  riskModel: RiskModelConfig,
+  zones: Zone[] = []
+): Pick<AnalysisResult, 'riskLevel' | 'riskScore' | 'aggregation' | 'violations' | 'incidents' | 'frameStats'> {
+  const { totalFrames } = video;
+  const unique = countUniqueRoadUsers(tracks);
+  
+  if (frameAnalyses.length === 0) {
     return {
       riskLevel: 'LOW',
       riskScore: 0,
+      aggregation: aggregateVideoRisk([], riskModel).aggregation,
       violations: [],
+      incidents: [],
       frameStats: {
-        totalFrames: 0,
+        totalFrames,
         processedFrames: 0,
         avgVehicles: 0,
         avgPersons: 0,
         maxScore: 0,
-        minScore: 0
-      },
-      isValidStreetFootage: false
+        minScore: 0,
+        uniqueVehicles: unique.vehicles,
+        uniquePersons: unique.persons
+      }
     };
   }
   
-  // Validate street/road footage by checking for vehicles and/or pedestrians
-  const hasVehicles = frameAnalyses.some(f => f.vehicleCount > 0);
-  const hasPersons = frameAnalyses.some(f => f.personCount > 0);
-  const avgVehicles = frameAnalyses.reduce((sum, f) => sum + f.vehicleCount, 0) / frameAnalyses.length;
+  const frameScores = frameAnalyses.map(f => f.score);
   
-  // Valid street footage should have vehicles or pedestrians (at least 0.5 average vehicles or 1+ person frames)
-  const isValidStreetFootage = hasVehicles || (hasPersons && frameAnalyses.length > 5);
-  
-  // Aggregate results (using actual Python logic)
-  const { riskLevel, riskScore } = aggregateVideoRisk(frameScores);
+  // Aggregate results with the model's strategy (Python logic used the mean)
+  const { riskLevel, riskScore, aggregation } = aggregateVideoRisk(
+    frameScores,
+    riskModel,
+    frameAnalyses.map(f => f.timestamp)
+  );
   
   // Generate violation summary
-  const violations = generateViolations(frameAnalyses, riskScore);
+  const signalViolations = detectSignalViolations(frameAnalyses, zones, video.width, video.height);
+  const violations = generateViolations(frameAnalyses, riskScore, signalViolations);
+  const incidents = extractIncidents(frameAnalyses, signalViolations);
   
   // Compute frame statistics
-  const avgVehicles2 = frameAnalyses.reduce((sum, f) => sum + f.vehicleCount, 0) / frameAnalyses.length;
+  const avgVehicles = frameAnalyses.reduce((sum, f) => sum + f.vehicleCount, 0) / frameAnalyses.length;
   const avgPersons = frameAnalyses.reduce((sum, f) => sum + f.personCount, 0) / frameAnalyses.length;
-  const maxScore = Math.max(...frameScores);
-  const minScore = Math.min(...frameScores);
-  
-  console.log(`[analysis] Finished ${file.name}: level=${riskLevel}, score=${riskScore}, isValidFootage=${isValidStreetFootage}`);
   
   return {
     riskLevel,
     riskScore,
+    aggregation,
     violations,
+    incidents,
     frameStats: {
-      totalFrames: totalEstimatedFrames,
+      totalFrames,
       processedFrames: frameAnalyses.length,
-      avgVehicles: Math.round(avgVehicles2 * 10) / 10,
+      avgVehicles: Math.round(avgVehicles * 10) / 10,
       avgPersons: Math.round(avgPersons * 10) / 10,
-      maxScore,
-      minScore
-    },
-    isValidStreetFootage
+      maxScore: Math.max(...frameScores),
+      minScore: Math.min(...frameScores),
+      uniqueVehicles: unique.vehicles,
+      uniquePersons: unique.persons
+    }
+  };
+}
+
+/**
+ * Re-score a finished analysis under another risk model
+ * Uses the stored per-frame detections, so detection is not re-run
+ */
+export function rescoreAnalysis(analysis: RiskAnalysis, riskModel: RiskModelConfig): RiskAnalysis {
+  if (!analysis.frames || !analysis.video) {
+    throw new Error('This analysis has no stored frames to re-score');
+  }
+  
+  const { width, height } = analysis.video;
+  const frames = analysis.frames.map(frame => ({
+    ...computeFrameRisk(frame.detections, width, height, riskModel, analysis.zones),
+    frameIndex: frame.frameIndex,
+    timestamp: frame.timestamp
+  }));
+  const scored = scoreFrames(frames, analysis.video, analysis.tracks ?? [], riskModel, analysis.zones);
+  
+  return {
+    ...analysis,
+    ...scored,
+    frames,
+    riskModel
   };
 }
 
@@ -144,9 +304,10 @@ export async function analyzeVideo(
  */
 export async function quickAnalyze(
   file: File,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  options: Omit<AnalysisOptions, 'maxFrames' | 'frameSkip'> = {}
 ): Promise<AnalysisResult> {
-  return analyzeVideo(file, onProgress, 20, 5);
+  return analyzeVideo(file, onProgress, { ...options, maxFrames: 20, frameSkip: 5 });
 }
 
 /**
@@ -154,7 +315,8 @@ export async function quickAnalyze(
  */
 export async function deepAnalyze(
   file: File,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  options: Omit<AnalysisOptions, 'maxFrames' | 'frameSkip'> = {}
 ): Promise<AnalysisResult> {
-  return analyzeVideo(file, onProgress, 100, 2);
+  return analyzeVideo(file, onProgress, { ...options, maxFrames: 100, frameSkip: 2 });
 }
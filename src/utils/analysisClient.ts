@@ -0,0 +1,127 @@
+/**
+ * analysisClient.ts - Background Analysis
+ *
+ * Runs the analysis pipeline in a Web Worker and serves it frames from
+ * the page's video decoder. Falls back to the main thread where workers
+ * are unavailable. Aborting the signal terminates the worker at once.
+ */
+
+import { AnalysisProgress, DetectorConfig } from '../types';
+import { AnalysisOptions, AnalysisResult, analyzeVideo } from './analysis';
+import { WorkerRequest, WorkerResponse } from './analysisProtocol';
+import { createDetector } from './detectors';
+import { openFrameSource } from './frameSource';
+import { seedFromFile } from './random';
+import AnalysisWorker from './analysisWorker?worker&inline';
+
+export interface BackgroundAnalysisOptions extends Omit<AnalysisOptions, 'detector'> {
+  detectorConfig: DetectorConfig;
+}
+
+function abortError(signal?: AbortSignal): Error {
+  return signal?.reason instanceof Error ? signal.reason : new DOMException('Analysis cancelled', 'AbortError');
+}
+
+/**
+ * Main-thread run for browsers without module workers
+ */
+async function analyzeOnMainThread(
+  file: File,
+  seed: number,
+  onProgress: ((progress: AnalysisProgress) => void) | undefined,
+  options: BackgroundAnalysisOptions
+): Promise<AnalysisResult> {
+  const detector = await createDetector(options.detectorConfig, seed);
+  try {
+    return await analyzeVideo(
+      file,
+      percent => onProgress?.({ stage: percent < 100 ? 'detecting' : 'done', processedFrames: 0, plannedFrames: 0, percent }),
+      { ...options, detector, seed }
+    );
+  } finally {
+    detector.dispose();
+  }
+}
+
+/**
+ * Analyze a video without blocking the page
+ */
+export async function analyzeInBackground(
+  file: File,
+  onProgress?: (progress: AnalysisProgress) => void,
+  options: BackgroundAnalysisOptions = { detectorConfig: { kind: 'simulated' } }
+): Promise<AnalysisResult> {
+  const { signal } = options;
+  const seed = options.seed ?? await seedFromFile(file);
+  signal?.throwIfAborted();
+
+  if (typeof Worker === 'undefined') {
+    return analyzeOnMainThread(file, seed, onProgress, options);
+  }
+
+  // Opening measures the frame rate, which takes a while; a cancel meanwhile must not be lost
+  const source = await openFrameSource(file);
+  if (signal?.aborted) {
+    source.close();
+    throw abortError(signal);
+  }
+  const worker = new AnalysisWorker();
+
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    // The page decodes one frame at a time; requests queue behind each other
+    let decoding = Promise.resolve();
+
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      source.close();
+    };
+    const onAbort = () => {
+      finish();
+      console.log(`[analysis] Cancelled analysis of ${file.name}`);
+      reject(abortError(signal));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    const send = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'readFrame':
+          decoding = decoding
+            .then(() => source.readFrame(message.frameIndex))
+            .then(frame => send({ type: 'frame', frame }, [frame.pixels.data.buffer]))
+            .catch(error => send({ type: 'frameError', frameIndex: message.frameIndex, message: (error as Error).message }));
+          break;
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          finish();
+          resolve(message.result);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    send({
+      type: 'start',
+      fileName: file.name,
+      metadata: source.metadata,
+      detector: options.detectorConfig,
+      seed,
+      riskModel: options.riskModel,
+      zones: options.zones,
+      maxFrames: options.maxFrames,
+      frameSkip: options.frameSkip
+    });
+  });
+}
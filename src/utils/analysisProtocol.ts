@@ -0,0 +1,33 @@
+/**
+ * analysisProtocol.ts - Analysis Worker Messages
+ *
+ * Messages exchanged between the page and the analysis worker. The page
+ * owns the <video> decoder, so the worker requests each sampled frame and
+ * the page answers with its pixels.
+ */
+
+import { AnalysisProgress, DetectorConfig, RiskModelConfig, SampledFrame, VideoMetadata, Zone } from '../types';
+import type { AnalysisResult } from './analysis';
+
+// Page -> worker
+export type WorkerRequest =
+  | {
+      type: 'start';
+      fileName: string;
+      metadata: VideoMetadata;
+      detector: DetectorConfig;
+      seed: number;
+      riskModel?: RiskModelConfig;
+      zones?: Zone[];
+      maxFrames?: number;
+      frameSkip?: number;
+    }
+  | { type: 'frame'; frame: SampledFrame }
+  | { type: 'frameError'; frameIndex: number; message: string };
+
+// Worker -> page
+export type WorkerResponse =
+  | { type: 'readFrame'; frameIndex: number }
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'done'; result: AnalysisResult }
+  | { type: 'error'; message: string };
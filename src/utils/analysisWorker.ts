@@ -0,0 +1,80 @@
+/**
+ * analysisWorker.ts - Analysis Web Worker
+ *
+ * Runs detection, tracking and scoring off the main thread so the map
+ * stays responsive. Decoding needs an HTMLVideoElement, which workers do
+ * not have, so frames are requested from the page one sample ahead.
+ */
+
+import { SampledFrame } from '../types';
+import { runAnalysis } from './analysis';
+import { WorkerRequest, WorkerResponse } from './analysisProtocol';
+import { createDetector } from './detectors';
+import { sampleFrames } from './frameSource';
+
+const pendingFrames = new Map<number, { resolve: (frame: SampledFrame) => void; reject: (error: Error) => void }>();
+
+function post(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+function requestFrame(frameIndex: number): Promise<SampledFrame> {
+  return new Promise((resolve, reject) => {
+    pendingFrames.set(frameIndex, { resolve, reject });
+    post({ type: 'readFrame', frameIndex });
+  });
+}
+
+/**
+ * Sample like the page's frame source, but keep the next request in
+ * flight while the current frame is being analysed
+ */
+async function* prefetchFrames(totalFrames: number, frameSkip: number, maxFrames: number): AsyncGenerator<SampledFrame> {
+  const ahead = sampleFrames(requestFrame, totalFrames, frameSkip, maxFrames);
+  let next = ahead.next();
+  while (true) {
+    const current = await next;
+    if (current.done) return;
+    next = ahead.next();
+    yield current.value;
+  }
+}
+
+async function start(request: Extract<WorkerRequest, { type: 'start' }>) {
+  post({ type: 'progress', progress: { stage: 'loading', processedFrames: 0, plannedFrames: 0, percent: 0 } });
+  const detector = await createDetector(request.detector, request.seed);
+  try {
+    const source = {
+      metadata: request.metadata,
+      frames: (frameSkip: number, maxFrames: number) => prefetchFrames(request.metadata.totalFrames, frameSkip, maxFrames),
+    };
+    const result = await runAnalysis(
+      source,
+      request.fileName,
+      detector,
+      request.seed,
+      { riskModel: request.riskModel, zones: request.zones, maxFrames: request.maxFrames, frameSkip: request.frameSkip },
+      progress => post({ type: 'progress', progress })
+    );
+    post({ type: 'done', result });
+  } finally {
+    detector.dispose();
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      start(message).catch(error => post({ type: 'error', message: (error as Error).message }));
+      break;
+    case 'frame':
+      pendingFrames.get(message.frame.frameIndex)?.resolve(message.frame);
+      pendingFrames.delete(message.frame.frameIndex);
+      break;
+    case 'frameError':
+      pendingFrames.get(message.frameIndex)?.reject(new Error(message.message));
+      pendingFrames.delete(message.frameIndex);
+      break;
+  }
+});
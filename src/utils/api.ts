@@ -1,20 +1,26 @@
 /**
  * api.ts - Backend API Service
  * 
- * For full MERN stack deployment, this module connects to
- * a Node.js/Express backend that runs the Python YOLO analysis.
+ * Talks to the Node.js/Express backend in server/, which stores uploaded
+ * videos and results and runs the same analysis pipeline server-side.
  * 
- * Backend Structure (for future implementation):
- * - POST /api/analyze - Upload video and get analysis results
+ * Backend routes:
+ * - POST /api/uploads, PUT /api/uploads/:id/chunks/:index - Resumable video upload (chunkedUpload.ts)
+ * - POST /api/analyze - Start analysing an uploaded video; returns a job id
+ * - GET /api/jobs/:id/events - Job progress, log lines and result as server-sent events
  * - GET /api/analyses - Get analysis history
  * - GET /api/analyses/:id - Get specific analysis
- * 
- * The backend would use child_process or a Python microservice
- * to run the actual YOLO detection and risk calculation.
+ * - PATCH /api/analyses/:id - Move an analysis to corrected coordinates
+ * - POST /api/detect - Run YOLO on a single frame
+ * - GET /api/health - Liveness check and whether /api/detect has a model
  */
 
+import { z } from 'zod';
+import { AnalysisLogEntry, AnalysisProgress, AnalysisResponse, Detection, GpsPoint, RiskModelConfig, SampledFrame, Zone } from '../types';
+import { analysisJobEventSchema, analysisResponseSchema, detectionSchema, parseWithSchema } from '../types/schema';
+import { ChunkedUpload, createChunkedUpload, forgetUpload } from './chunkedUpload';
+
 // Backend API base URL - configure for your deployment
-// @ts-expect-error Vite env types
 const API_BASE_URL = (import.meta.env?.VITE_API_URL as string) || 'http://localhost:3001/api';
 
 export interface AnalysisRequest {
@@ -22,73 +28,156 @@ export interface AnalysisRequest {
   locationName: string;
   lat: number;
   lon: number;
+  seed?: number;
+  riskModel?: RiskModelConfig;
+  zones?: Zone[];
+  recordedAt?: string; // ISO time from the video's metadata
+  gpsTrack?: GpsPoint[];
 }
 
-export interface AnalysisResponse {
-  id: string;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  riskScore: number;
-  violations: Array<{
-    type: string;
-    count: number;
-    severity: 'low' | 'medium' | 'high';
-  }>;
-  frameStats: {
-    totalFrames: number;
-    processedFrames: number;
-    avgVehicles: number;
-    avgPersons: number;
-    maxScore: number;
-    minScore: number;
-  };
-  timestamp: string;
+export interface UploadForAnalysisOptions {
+  onProgress?: (percent: number, progress: AnalysisProgress | null) => void;
+  onLog?: (entry: AnalysisLogEntry) => void;
+  /** Receives the upload as it starts, for pause and resume controls */
+  onUpload?: (upload: ChunkedUpload) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Read the message of a JSON error body, falling back to the status
+ */
+async function responseError(response: Response): Promise<Error> {
+  try {
+    const { error } = await response.json();
+    if (typeof error === 'string') return new Error(error);
+  } catch {
+    // Not a JSON error body
+  }
+  return new Error(`Server error: ${response.status}`);
+}
+
+const startJobSchema = z.object({ jobId: z.string(), analysisId: z.string() });
+
+/**
+ * Follow a backend analysis job until it finishes
+ * EventSource reconnects by itself after a drop and the server replays
+ * what was missed; cancelling stops the job on the server too
+ */
+function followJob(
+  jobId: string,
+  onProgress: (progress: AnalysisProgress) => void,
+  onLog: (entry: AnalysisLogEntry) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResponse> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`${API_BASE_URL}/jobs/${jobId}/events`);
+    const close = () => {
+      source.close();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      close();
+      fetch(`${API_BASE_URL}/jobs/${jobId}`, { method: 'DELETE' })
+        .catch(error => console.warn('[api] Could not cancel analysis job:', error));
+      reject(new DOMException('Analysis cancelled', 'AbortError'));
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    source.onmessage = (message) => {
+      let event;
+      try {
+        event = parseWithSchema(analysisJobEventSchema, JSON.parse(message.data), 'job event');
+      } catch (error) {
+        close();
+        reject(error);
+        return;
+      }
+      switch (event.type) {
+        case 'progress':
+          onProgress(event.progress);
+          break;
+        case 'log':
+          onLog(event.entry);
+          break;
+        case 'done':
+          close();
+          resolve(event.analysis);
+          break;
+        case 'failed':
+          close();
+          reject(new Error(event.error));
+          break;
+      }
+    };
+    // While reconnecting the state is CONNECTING; CLOSED means the server no longer knows the job
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        close();
+        reject(new Error('Lost connection to the analysis job'));
+      }
+    };
+  });
 }
 
 /**
- * Upload video for analysis
- * In production, this sends the video to the backend for YOLO processing
+ * Upload a video in resumable chunks, then have the backend analyse it
+ * Upload counts as the first half of the progress, the server's own
+ * progress events as the second
  */
 export async function uploadForAnalysis(
   request: AnalysisRequest,
-  onProgress?: (progress: number) => void
+  { onProgress, onLog, onUpload, signal }: UploadForAnalysisOptions = {}
 ): Promise<AnalysisResponse> {
+  const upload = createChunkedUpload(request.video, {
+    baseUrl: API_BASE_URL,
+    signal,
+    onProgress: progress => {
+      const percent = Math.round((progress.uploadedBytes / progress.totalBytes) * 50);
+      onProgress?.(percent, { stage: 'uploading', processedFrames: 0, plannedFrames: 0, percent, upload: progress });
+    },
+  });
+  onUpload?.(upload);
+  const uploadId = await upload.done;
+  onProgress?.(50, null);
+
   const formData = new FormData();
-  formData.append('video', request.video);
+  formData.append('uploadId', uploadId);
   formData.append('locationName', request.locationName);
   formData.append('lat', request.lat.toString());
   formData.append('lon', request.lon.toString());
+  if (request.seed !== undefined) formData.append('seed', request.seed.toString());
+  if (request.riskModel) formData.append('riskModel', JSON.stringify(request.riskModel));
+  if (request.zones) formData.append('zones', JSON.stringify(request.zones));
+  if (request.recordedAt) formData.append('recordedAt', request.recordedAt);
+  if (request.gpsTrack?.length) formData.append('gpsTrack', JSON.stringify(request.gpsTrack));
 
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    
-    xhr.upload.addEventListener('progress', (event) => {
-      if (event.lengthComputable) {
-        const progress = Math.round((event.loaded / event.total) * 50); // Upload is 50% of total
-        onProgress?.(progress);
-      }
-    });
-
-    xhr.addEventListener('load', () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        try {
-          const response = JSON.parse(xhr.responseText);
-          onProgress?.(100);
-          resolve(response);
-        } catch {
-          reject(new Error('Invalid response from server'));
-        }
-      } else {
-        reject(new Error(`Server error: ${xhr.status}`));
-      }
-    });
-
-    xhr.addEventListener('error', () => {
-      reject(new Error('Network error occurred'));
-    });
+  const response = await fetch(`${API_BASE_URL}/analyze`, { method: 'POST', body: formData, signal });
+  if (!response.ok) {
+    throw await responseError(response);
+  }
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new Error('Invalid response from server');
+  }
+  const { jobId } = parseWithSchema(startJobSchema, body, 'analysis job');
 
-    xhr.open('POST', `${API_BASE_URL}/analyze`);
-    xhr.send(formData);
-  });
+  const result = await followJob(
+    jobId,
+    progress => onProgress?.(50 + Math.round(progress.percent / 2), progress),
+    entry => onLog?.(entry),
+    signal
+  );
+  // The server drops the chunks once the analysis is stored; until then a
+  // retry of the same file reuses them instead of uploading again
+  forgetUpload(request.video);
+  onProgress?.(100, null);
+  return result;
 }
 
 /**
@@ -99,7 +188,7 @@ export async function getAnalysisHistory(): Promise<AnalysisResponse[]> {
   if (!response.ok) {
     throw new Error('Failed to fetch analysis history');
   }
-  return response.json();
+  return parseWithSchema(z.array(analysisResponseSchema), await response.json(), 'analysis history');
 }
 
 /**
@@ -110,50 +199,81 @@ export async function getAnalysis(id: string): Promise<AnalysisResponse> {
   if (!response.ok) {
     throw new Error('Analysis not found');
   }
-  return response.json();
+  return parseWithSchema(analysisResponseSchema, await response.json(), 'analysis response');
 }
 
+/**
+ * Save corrected coordinates of a stored analysis
+ * Resolves to null when the server no longer has it
+ */
+export async function updateAnalysisLocation(id: string, lat: number, lon: number): Promise<AnalysisResponse | null> {
+  const response = await fetch(`${API_BASE_URL}/analyses/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ lat, lon }),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw await responseError(response);
+  }
+  return parseWithSchema(analysisResponseSchema, await response.json(), 'analysis response');
+}
+
+export interface DetectResponse {
+  detections: Detection[];
+}
+
+const detectResponseSchema = z.object({ detections: z.array(detectionSchema) });
+
+/**
+ * Run detection on a single decoded frame
+ * Used by the backend detector so the browser pipeline can score YOLO output
+ */
+export async function detectFrame(frame: SampledFrame): Promise<Detection[]> {
+  const canvas = new OffscreenCanvas(frame.width, frame.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.putImageData(frame.pixels, 0, 0);
+  const image = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 });
+
+  const formData = new FormData();
+  formData.append('frame', image, `frame-${frame.frameIndex}.jpg`);
+  formData.append('frameIndex', frame.frameIndex.toString());
+  formData.append('timestamp', frame.timestamp.toString());
+
+  const response = await fetch(`${API_BASE_URL}/detect`, {
+    method: 'POST',
+    body: formData
+  });
+  if (!response.ok) {
+    throw new Error(`Detection failed: ${(await responseError(response)).message}`);
+  }
+  const data: DetectResponse = parseWithSchema(detectResponseSchema, await response.json(), 'detection response');
+  return data.detections;
+}
+
+export interface BackendHealth {
+  detection: boolean; // POST /api/detect has a model behind it
+}
+
+const healthSchema = z.object({ detection: z.boolean().catch(false) });
+
 /**
  * Health check for backend
+ * Resolves to null when the server cannot be reached
  */
-export async function checkBackendHealth(): Promise<boolean> {
+export async function checkBackendHealth(): Promise<BackendHealth | null> {
   try {
     const response = await fetch(`${API_BASE_URL}/health`, {
       method: 'GET',
       signal: AbortSignal.timeout(5000)
     });
-    return response.ok;
+    if (!response.ok) return null;
+    const parsed = healthSchema.safeParse(await response.json());
+    return parsed.success ? parsed.data : { detection: false };
   } catch {
-    return false;
+    return null;
   }
 }
-
-/*
- * ============================================
- * BACKEND IMPLEMENTATION GUIDE (Node.js/Express)
- * ============================================
- * 
- * To create the full MERN backend:
- * 
- * 1. Create Express server with multer for file uploads
- * 2. Store videos temporarily using temp directory
- * 3. Call Python analysis script via child_process:
- *    
- *    const { spawn } = require('child_process');
- *    const python = spawn('python', ['src/analysis.py', videoPath]);
- *    
- * 4. Parse Python stdout for results
- * 5. Store results in MongoDB
- * 6. Return JSON response
- * 
- * Alternatively, create a FastAPI Python backend:
- * - Endpoint: POST /analyze
- * - Accepts multipart form with video
- * - Runs YOLO detection
- * - Returns JSON results
- * 
- * Deploy options:
- * - Vercel (frontend) + Railway/Render (backend)
- * - Vercel (frontend) + AWS Lambda + S3 (backend)
- * - Full Docker deployment
- */
@@ -0,0 +1,107 @@
+/**
+ * batchQueue.ts - Batch Analysis Queue
+ *
+ * Holds many uploaded clips, each with its own location, status and
+ * progress, and runs them a few at a time. Jobs without a location wait
+ * until one is assigned; failed jobs can be retried.
+ */
+
+import { BatchJob, LocationResult } from '../types';
+
+export const DEFAULT_CONCURRENCY = 2;
+
+export interface BatchQueueOptions {
+  concurrency?: number;
+  /** Analyse one job; resolves with the id of the stored analysis */
+  run: (job: BatchJob, onProgress: (progress: number) => void, signal: AbortSignal) => Promise<string>;
+  /** Called with a fresh array whenever any job changes */
+  onChange: (jobs: BatchJob[]) => void;
+}
+
+export interface BatchQueue {
+  add(files: File[], location: LocationResult | null): void;
+  setLocation(id: string, location: LocationResult): void;
+  retry(id: string): void;
+  /** Stop a running job (it fails as cancelled) or drop a waiting one */
+  cancel(id: string): void;
+  clearFinished(): void;
+}
+
+export function createBatchQueue(options: BatchQueueOptions): BatchQueue {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  let jobs: BatchJob[] = [];
+  const controllers = new Map<string, AbortController>();
+  let nextId = 1;
+
+  const update = (id: string, changes: Partial<BatchJob>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    options.onChange(jobs);
+  };
+
+  const start = (job: BatchJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', progress: 0, error: undefined });
+
+    options
+      .run(job, progress => update(job.id, { progress }), controller.signal)
+      .then(analysisId => update(job.id, { status: 'done', progress: 100, analysisId }))
+      .catch(error => {
+        const message = (error as Error).name === 'AbortError' ? 'Cancelled' : (error as Error).message;
+        console.error(`[queue] ${job.file.name} failed:`, error);
+        update(job.id, { status: 'failed', error: message });
+      })
+      .finally(() => {
+        controllers.delete(job.id);
+        pump();
+      });
+  };
+
+  // Start waiting jobs in order until the concurrency limit is reached
+  const pump = () => {
+    for (const job of jobs) {
+      if (controllers.size >= concurrency) break;
+      if (job.status === 'queued' && job.location) start(job);
+    }
+  };
+
+  return {
+    add(files, location) {
+      const added = files.map((file): BatchJob => ({
+        id: `job-${nextId++}`,
+        file,
+        location,
+        status: 'queued',
+        progress: 0,
+      }));
+      jobs = [...jobs, ...added];
+      options.onChange(jobs);
+      pump();
+    },
+
+    setLocation(id, location) {
+      update(id, { location });
+      pump();
+    },
+
+    retry(id) {
+      update(id, { status: 'queued', progress: 0, error: undefined });
+      pump();
+    },
+
+    cancel(id) {
+      const controller = controllers.get(id);
+      if (controller) {
+        controller.abort();
+        return;
+      }
+      jobs = jobs.filter(job => job.id !== id);
+      options.onChange(jobs);
+    },
+
+    clearFinished() {
+      jobs = jobs.filter(job => job.status !== 'done');
+      options.onChange(jobs);
+    },
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * chunkedUpload.ts - Resumable Video Upload
+ *
+ * Sends a video to the backend (server/src/uploads.ts) in fixed-size
+ * chunks, each with its SHA-256 so the server rejects corrupted ones.
+ * Failed requests are retried with exponential backoff, the upload can be
+ * paused, resumed or aborted, and the session id is remembered per file
+ * so an upload cut off by a lost connection or a closed tab continues
+ * from the first missing chunk.
+ */
+
+import { z } from 'zod';
+import { UploadProgress, UploadState } from '../types';
+import { parseWithSchema } from '../types/schema';
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Backoff doubles from the base delay up to the cap, about 1.5 minutes in all
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Status codes worth another try: timeout, checksum mismatch, rate limit, server errors
+const RETRYABLE_STATUS = [408, 422, 429];
+
+const STORAGE_KEY = 'safesight.uploads';
+
+const uploadSessionSchema = z.object({
+  id: z.string(),
+  size: z.number().int(),
+  chunkSize: z.number().int().positive(),
+  chunkCount: z.number().int().positive(),
+  received: z.array(z.number().int()),
+});
+
+type UploadSession = z.infer<typeof uploadSessionSchema>;
+
+export interface ChunkedUploadOptions {
+  baseUrl: string;
+  chunkSize?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChunkedUpload {
+  /** Resolves with the server's upload id once every chunk is stored */
+  done: Promise<string>;
+  pause(): void;
+  resume(): void;
+  /** Stop for good and delete the chunks already on the server */
+  abort(): void;
+}
+
+interface HttpResult {
+  status: number;
+  body: unknown;
+}
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+/**
+ * Send one request, reporting upload progress; network failures reject
+ */
+function send(
+  method: string,
+  url: string,
+  signal: AbortSignal,
+  body?: Blob | string,
+  headers: Record<string, string> = {},
+  onUploadProgress?: (loaded: number) => void
+): Promise<HttpResult> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    const settle = () => signal.removeEventListener('abort', onAbort);
+
+    xhr.upload.addEventListener('progress', event => onUploadProgress?.(event.loaded));
+    xhr.addEventListener('load', () => {
+      settle();
+      let parsed: unknown = null;
+      try {
+        parsed = xhr.responseText ? JSON.parse(xhr.responseText) : null;
+      } catch {
+        // Not JSON; callers only read bodies of successful requests and errors
+      }
+      resolve({ status: xhr.status, body: parsed });
+    });
+    xhr.addEventListener('error', () => { settle(); reject(new Error('Network error occurred')); });
+    xhr.addEventListener('abort', () => { settle(); reject(abortError()); });
+
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.send(body ?? null);
+  });
+}
+
+function errorMessage({ status, body }: HttpResult): string {
+  const message = (body as { error?: unknown } | null)?.error;
+  return typeof message === 'string' ? message : `Server error: ${status}`;
+}
+
+async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Same file picked again (even after a reload) maps to the same upload
+function fileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function loadSavedUploads(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.error('[upload] Could not load saved uploads:', error);
+    return {};
+  }
+}
+
+function rememberUpload(file: File, id: string | null): void {
+  const { [fileKey(file)]: _previous, ...others } = loadSavedUploads();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(id ? { ...others, [fileKey(file)]: id } : others));
+}
+
+/**
+ * Drop the saved session for a file, once the server has used its upload
+ */
+export function forgetUpload(file: File): void {
+  rememberUpload(file, null);
+}
+
+/**
+ * Start uploading a file; nothing is sent twice if it was partly uploaded before
+ */
+export function createChunkedUpload(file: File, options: ChunkedUploadOptions): ChunkedUpload {
+  const { baseUrl } = options;
+  // Aborted for good by abort(); `request` is replaced for each request so pause can cancel just that one
+  const lifetime = new AbortController();
+  let request = new AbortController();
+  let paused = false;
+  let wake: (() => void) | null = null;
+  let sessionId: string | null = null;
+
+  let state: UploadState = 'uploading';
+  let storedBytes = 0; // chunks the server has confirmed
+  let sendingBytes = 0; // sent so far of the chunk in flight
+  let attempt = 0;
+  const report = () => {
+    options.onProgress?.({ state, uploadedBytes: storedBytes + sendingBytes, totalBytes: file.size, attempt });
+  };
+
+  // Resolves at once unless paused, and on abort so the caller sees the cancellation
+  const whilePaused = () => new Promise<void>(resolve => {
+    if (!paused || lifetime.signal.aborted) resolve();
+    else wake = resolve;
+  });
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    request.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+  /**
+   * Run a request until it succeeds, backing off between failed attempts
+   * A pause cancels the request in flight; it is sent again after resume
+   */
+  const withRetry = async (label: string, run: (signal: AbortSignal) => Promise<HttpResult>): Promise<unknown> => {
+    for (let tries = 0; ; ) {
+      await whilePaused();
+      if (lifetime.signal.aborted) throw abortError();
+      request = new AbortController();
+      sendingBytes = 0;
+
+      let result: HttpResult | null = null;
+      let failure = '';
+      try {
+        result = await run(request.signal);
+      } catch (error) {
+        if (lifetime.signal.aborted) throw abortError();
+        if (paused) continue;
+        failure = (error as Error).message;
+      }
+      if (result) {
+        if (result.status >= 200 && result.status < 300) {
+          attempt = 0;
+          return result.body;
+        }
+        if (!RETRYABLE_STATUS.includes(result.status) && result.status < 500) {
+          throw new Error(errorMessage(result));
+        }
+        failure = errorMessage(result);
+      }
+
+      tries++;
+      if (tries >= MAX_ATTEMPTS) {
+        throw new Error(`${label} failed after ${MAX_ATTEMPTS} attempts: ${failure}`);
+      }
+      const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (tries - 1)) * (0.5 + Math.random() / 2);
+      console.warn(`[upload] ${label} failed (${failure}), retrying in ${(delay / 1000).toFixed(1)}s`);
+      state = 'retrying';
+      attempt = tries;
+      sendingBytes = 0;
+      report();
+      await wait(delay);
+      if (!paused && !lifetime.signal.aborted) {
+        state = 'uploading';
+        report();
+      }
+    }
+  };
+
+  // Free the server's disk; the session id is useless once cancelled
+  const deleteSession = (id: string) => {
+    fetch(`${baseUrl}/uploads/${id}`, { method: 'DELETE' })
+      .catch(error => console.warn('[upload] Could not delete cancelled upload:', error));
+  };
+
+  // Continue the session saved for this file, or start a new one
+  // sessionId is set as soon as it is known, so abort() can always delete it
+  const openSession = async (): Promise<UploadSession> => {
+    const savedId = loadSavedUploads()[fileKey(file)];
+    if (savedId) {
+      sessionId = savedId;
+      try {
+        const body = await withRetry('Upload lookup', signal => send('GET', `${baseUrl}/uploads/${savedId}`, signal));
+        const session = parseWithSchema(uploadSessionSchema, body, 'upload session');
+        if (session.size === file.size) return session;
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') throw error;
+        // Expired or removed on the server: start over
+        console.log(`[upload] Saved upload ${savedId} is gone, starting a new one`);
+      }
+    }
+
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const body = await withRetry('Upload start', signal => send(
+      'POST',
+      `${baseUrl}/uploads`,
+      signal,
+      JSON.stringify({ fileName: file.name, size: file.size, chunkSize }),
+      { 'Content-Type': 'application/json' }
+    ));
+    const session = parseWithSchema(uploadSessionSchema, body, 'upload session');
+    sessionId = session.id;
+    // Cancelled while the session was being created: abort() had no id to delete
+    if (lifetime.signal.aborted) {
+      deleteSession(session.id);
+      throw abortError();
+    }
+    rememberUpload(file, session.id);
+    return session;
+  };
+
+  const run = async (): Promise<string> => {
+    const session = await openSession();
+    const received = new Set(session.received);
+    const chunkBytes = (index: number) => Math.min(session.chunkSize, file.size - index * session.chunkSize);
+
+    storedBytes = [...received].reduce((total, index) => total + chunkBytes(index), 0);
+    if (received.size > 0) {
+      console.log(`[upload] Resuming ${file.name}: ${received.size} of ${session.chunkCount} chunks already stored`);
+    }
+    report();
+
+    for (let index = 0; index < session.chunkCount; index++) {
+      if (received.has(index)) continue;
+      const start = index * session.chunkSize;
+      const chunk = file.slice(start, start + chunkBytes(index));
+      const sha256 = await sha256Hex(chunk);
+      await withRetry(`Chunk ${index + 1} of ${session.chunkCount}`, signal => send(
+        'PUT',
+        `${baseUrl}/uploads/${session.id}/chunks/${index}`,
+        signal,
+        chunk,
+        { 'Content-Type': 'application/octet-stream', 'X-Chunk-Sha256': sha256 },
+        loaded => {
+          sendingBytes = Math.min(loaded, chunk.size);
+          report();
+        }
+      ));
+      storedBytes += chunk.size;
+      sendingBytes = 0;
+      report();
+    }
+
+    state = 'done';
+    report();
+    return session.id;
+  };
+
+  const upload: ChunkedUpload = {
+    done: run(),
+    pause() {
+      if (paused || state === 'done' || lifetime.signal.aborted) return;
+      paused = true;
+      request.abort();
+      state = 'paused';
+      sendingBytes = 0;
+      report();
+    },
+    resume() {
+      if (!paused) return;
+      paused = false;
+      state = 'uploading';
+      report();
+      wake?.();
+      wake = null;
+    },
+    abort() {
+      if (lifetime.signal.aborted) return;
+      lifetime.abort();
+      request.abort();
+      wake?.();
+      forgetUpload(file);
+      if (sessionId) deleteSession(sessionId);
+    },
+  };
+
+  if (options.signal?.aborted) upload.abort();
+  options.signal?.addEventListener('abort', () => upload.abort(), { once: true });
+  return upload;
+}
@@ -6,6 +6,7 @@
  */
 
 import { Detection, TARGET_CLASSES, VEHICLE_CLASSES } from '../types';
+import { Rng } from './random';
 
 // Target class IDs for traffic analysis (matching Python detection.py)
 // IDs: 0=person, 1=bicycle, 2=car, 3=motorcycle, 5=bus, 7=truck
@@ -13,11 +14,13 @@ import { Detection, TARGET_CLASSES, VEHICLE_CLASSES } from '../types';
 /**
  * Simulates YOLO detection on a video frame
  * In production, this would be an API call to a Python backend
+ * Pass a seeded Rng to make the output reproducible
  */
 export function simulateYoloDetection(
   frameWidth: number,
   frameHeight: number,
-  scenarioIntensity: 'low' | 'medium' | 'high' = 'medium'
+  scenarioIntensity: 'low' | 'medium' | 'high' = 'medium',
+  rng: Rng = Math.random
 ): Detection[] {
   const detections: Detection[] = [];
   
@@ -28,23 +31,23 @@ export function simulateYoloDetection(
   const [minVehicles, maxVehicles] = vehicleCounts[scenarioIntensity];
   const [minPersons, maxPersons] = personCounts[scenarioIntensity];
   
-  const numVehicles = Math.floor(Math.random() * (maxVehicles - minVehicles + 1)) + minVehicles;
-  const numPersons = Math.floor(Math.random() * (maxPersons - minPersons + 1)) + minPersons;
+  const numVehicles = Math.floor(rng() * (maxVehicles - minVehicles + 1)) + minVehicles;
+  const numPersons = Math.floor(rng() * (maxPersons - minPersons + 1)) + minPersons;
   
   // Generate vehicle detections
   for (let i = 0; i < numVehicles; i++) {
-    const vehicleType = VEHICLE_CLASSES[Math.floor(Math.random() * VEHICLE_CLASSES.length)];
+    const vehicleType = VEHICLE_CLASSES[Math.floor(rng() * VEHICLE_CLASSES.length)];
     const classId = Object.entries(TARGET_CLASSES).find(([_, name]) => name === vehicleType)?.[0] || '2';
     
     // Vehicles typically in middle-to-lower portion of frame
-    const width = Math.random() * (frameWidth * 0.15) + frameWidth * 0.08;
-    const height = Math.random() * (frameHeight * 0.2) + frameHeight * 0.1;
-    const x1 = Math.random() * (frameWidth - width);
-    const y1 = Math.random() * (frameHeight * 0.5) + frameHeight * 0.2;
+    const width = rng() * (frameWidth * 0.15) + frameWidth * 0.08;
+    const height = rng() * (frameHeight * 0.2) + frameHeight * 0.1;
+    const x1 = rng() * (frameWidth - width);
+    const y1 = rng() * (frameHeight * 0.5) + frameHeight * 0.2;
     
     detections.push({
       className: vehicleType,
-      confidence: Math.random() * 0.3 + 0.7, // 0.7 - 1.0
+      confidence: rng() * 0.3 + 0.7, // 0.7 - 1.0
       bbox: [x1, y1, x1 + width, y1 + height] as [number, number, number, number],
       classId: parseInt(classId),
       center: [x1 + width / 2, y1 + height / 2]
@@ -53,15 +56,15 @@ export function simulateYoloDetection(
   
   // Generate person detections
   for (let i = 0; i < numPersons; i++) {
-    const width = Math.random() * (frameWidth * 0.05) + frameWidth * 0.03;
-    const height = Math.random() * (frameHeight * 0.15) + frameHeight * 0.08;
-    const x1 = Math.random() * (frameWidth - width);
+    const width = rng() * (frameWidth * 0.05) + frameWidth * 0.03;
+    const height = rng() * (frameHeight * 0.15) + frameHeight * 0.08;
+    const x1 = rng() * (frameWidth - width);
     // Pedestrians often near edges/crossings - lower portion of frame
-    const y1 = Math.random() * (frameHeight * 0.4) + frameHeight * 0.4;
+    const y1 = rng() * (frameHeight * 0.4) + frameHeight * 0.4;
     
     detections.push({
       className: 'person',
-      confidence: Math.random() * 0.25 + 0.75,
+      confidence: rng() * 0.25 + 0.75,
       bbox: [x1, y1, x1 + width, y1 + height] as [number, number, number, number],
       classId: 0,
       center: [x1 + width / 2, y1 + height / 2]
@@ -77,11 +80,12 @@ export function simulateYoloDetection(
  */
 export function getScenarioForFrame(
   frameIndex: number,
-  totalFrames: number
+  totalFrames: number,
+  rng: Rng = Math.random
 ): 'low' | 'medium' | 'high' {
   // Create natural variation with some "peak" moments
   const normalizedPosition = frameIndex / totalFrames;
-  const noise = Math.sin(normalizedPosition * Math.PI * 4) * 0.3 + Math.random() * 0.3;
+  const noise = Math.sin(normalizedPosition * Math.PI * 4) * 0.3 + rng() * 0.3;
   
   // Create 2-3 peak danger moments in the video
   const peakMoments = [0.25, 0.5, 0.75];
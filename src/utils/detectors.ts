@@ -0,0 +1,92 @@
+/**
+ * detectors.ts - Pluggable Object Detectors
+ *
+ * The analysis pipeline talks to a Detector instead of calling a specific
+ * detection function, so the simulator, the backend YOLO service and the
+ * in-browser ONNX model are interchangeable.
+ */
+
+import { Detection, DetectorConfig, DetectorKind, SampledFrame, VideoMetadata } from '../types';
+import { simulateYoloDetection, getScenarioForFrame } from './detection';
+import { detectFrame } from './api';
+import { createRng, deriveSeed } from './random';
+import { createOnnxDetector } from './onnxDetector';
+
+export interface Detector {
+  kind: DetectorKind;
+  /** Human readable name shown in the UI and stored on results */
+  label: string;
+  detect(frame: SampledFrame, video: VideoMetadata): Promise<Detection[]>;
+  dispose(): void;
+}
+
+// Display names for each detector kind
+export const DETECTOR_LABELS: Record<DetectorKind, string> = {
+  simulated: 'Simulated Detector',
+  backend: 'Backend YOLOv8',
+  onnx: 'In-Browser YOLOv8 (ONNX)',
+};
+
+// Default detector, configurable per deployment
+// (the ONNX detector needs a model file picked by the user, so it cannot be a default)
+const ENV_DETECTOR = import.meta.env?.VITE_DETECTOR as string | undefined;
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig =
+  ENV_DETECTOR === 'backend' ? { kind: 'backend' } : { kind: 'simulated' };
+
+/**
+ * Detector that reproduces the original simulated detections
+ * Each frame draws from its own stream of the seed, so the same seed and
+ * video always give the same detections
+ */
+export function createSimulatedDetector(seed: number = Date.now()): Detector {
+  return {
+    kind: 'simulated',
+    label: DETECTOR_LABELS.simulated,
+    detect: async (frame, video) => {
+      const rng = createRng(deriveSeed(seed, frame.frameIndex));
+      // Get scenario intensity for this frame (creates realistic variation)
+      const scenario = getScenarioForFrame(frame.frameIndex, video.totalFrames, rng);
+      return simulateYoloDetection(frame.width, frame.height, scenario, rng);
+    },
+    dispose: () => {}
+  };
+}
+
+/**
+ * Detector that posts each frame to the backend YOLO service
+ */
+export function createBackendDetector(): Detector {
+  return {
+    kind: 'backend',
+    label: DETECTOR_LABELS.backend,
+    detect: (frame) => detectFrame(frame),
+    dispose: () => {}
+  };
+}
+
+/**
+ * Build the detector described by a config
+ * The seed only affects the simulated detector
+ */
+export async function createDetector(config: DetectorConfig, seed: number): Promise<Detector> {
+  switch (config.kind) {
+    case 'backend':
+      return createBackendDetector();
+    case 'onnx':
+      return createOnnxDetector(config.modelFile);
+    case 'simulated':
+    default:
+      return createSimulatedDetector(seed);
+  }
+}
+
+/**
+ * Describe a detector config for display (before the detector is loaded)
+ */
+export function describeDetector(config: DetectorConfig): string {
+  if (config.kind === 'onnx') {
+    return `${DETECTOR_LABELS.onnx} · ${config.modelFile.name}`;
+  }
+  return DETECTOR_LABELS[config.kind];
+}
@@ -0,0 +1,175 @@
+/**
+ * exportImport.ts - Analysis Export and Import
+ *
+ * Hands results to other tools: full-fidelity JSON for backups, CSV with
+ * stats and violations flattened into columns for spreadsheets, and
+ * GeoJSON points for GIS. JSON and GeoJSON files can be imported back;
+ * records are migrated and validated like stored history.
+ */
+
+import { RiskAnalysis } from '../types';
+import { RECORD_VERSION, StoredAnalysis, migrateAnalysis, serializeAnalysis } from './storage';
+
+export type ExportFormat = 'json' | 'csv' | 'geojson';
+
+const JSON_FORMAT = 'safesight-analyses';
+
+// Heavy per-frame data is left out of GeoJSON properties
+const GEOJSON_OMIT: (keyof StoredAnalysis)[] = ['frames', 'tracks', 'zones'];
+
+export interface ImportResult {
+  added: RiskAnalysis[];
+  duplicates: number;
+  errors: string[];
+}
+
+/**
+ * Full-fidelity backup of the analyses
+ */
+export function toJson(analyses: RiskAnalysis[]): string {
+  return JSON.stringify({
+    format: JSON_FORMAT,
+    schemaVersion: RECORD_VERSION,
+    exportedAt: new Date().toISOString(),
+    analyses: analyses.map(serializeAnalysis),
+  }, null, 2);
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  // Spreadsheets run text starting with these as a formula; numbers such as a negative longitude stay as they are
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per analysis; each violation type found in any row gets a
+ * count and a severity column
+ */
+export function toCsv(analyses: RiskAnalysis[]): string {
+  const violationTypes = [...new Set(analyses.flatMap(a => a.violations.map(v => v.type)))].sort();
+
+  const header = [
+    'id', 'locationName', 'lat', 'lon', 'riskLevel', 'riskScore', 'timestamp', 'videoName',
+    'detector', 'riskModel', 'aggregation', 'incidents',
+    'totalFrames', 'processedFrames', 'avgVehicles', 'avgPersons', 'maxScore', 'minScore',
+    'uniqueVehicles', 'uniquePersons',
+    ...violationTypes.flatMap(type => [`${type} count`, `${type} severity`]),
+  ];
+
+  const rows = analyses.map(a => {
+    const byType = new Map(a.violations.map(v => [v.type, v]));
+    return [
+      a.id, a.locationName, a.lat, a.lon, a.riskLevel, a.riskScore, a.timestamp.toISOString(), a.videoName,
+      a.detector, a.riskModel?.name, a.aggregation?.strategy, a.incidents?.length,
+      a.frameStats.totalFrames, a.frameStats.processedFrames, a.frameStats.avgVehicles, a.frameStats.avgPersons,
+      a.frameStats.maxScore, a.frameStats.minScore, a.frameStats.uniqueVehicles, a.frameStats.uniquePersons,
+      ...violationTypes.flatMap(type => [byType.get(type)?.count ?? 0, byType.get(type)?.severity]),
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Point per analysis, with the summary fields as properties
+ */
+export function toGeoJson(analyses: RiskAnalysis[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: analyses.map(analysis => {
+      const properties: Partial<StoredAnalysis> = serializeAnalysis(analysis);
+      GEOJSON_OMIT.forEach(key => delete properties[key]);
+      return {
+        type: 'Feature',
+        id: analysis.id,
+        geometry: { type: 'Point', coordinates: [analysis.lon, analysis.lat] },
+        properties,
+      };
+    }),
+  }, null, 2);
+}
+
+/**
+ * Serialize in the given format, with a matching file name and MIME type
+ */
+export function exportAnalyses(analyses: RiskAnalysis[], format: ExportFormat): { content: string; filename: string; mimeType: string } {
+  const stamp = new Date().toISOString().slice(0, 10);
+  switch (format) {
+    case 'csv':
+      return { content: toCsv(analyses), filename: `safesight-${stamp}.csv`, mimeType: 'text/csv' };
+    case 'geojson':
+      return { content: toGeoJson(analyses), filename: `safesight-${stamp}.geojson`, mimeType: 'application/geo+json' };
+    case 'json':
+    default:
+      return { content: toJson(analyses), filename: `safesight-${stamp}.json`, mimeType: 'application/json' };
+  }
+}
+
+/**
+ * Save text or a blob as a file through the browser
+ */
+export function downloadFile(content: string | Blob, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  // Firefox only follows links in the document, and the download starts
+  // after click() returns, so the URL must outlive this call
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+/**
+ * Records from an exported JSON backup or a GeoJSON feature collection
+ */
+function extractRecords(data: unknown): Record<string, unknown>[] {
+  const parsed = data as Record<string, unknown>;
+  if (parsed?.type === 'FeatureCollection' && Array.isArray(parsed.features)) {
+    return parsed.features.map((feature: Record<string, unknown>) => {
+      const geometry = feature.geometry as { type?: string; coordinates?: number[] } | undefined;
+      const [lon, lat] = geometry?.type === 'Point' && geometry.coordinates ? geometry.coordinates : [];
+      return { ...(feature.properties as Record<string, unknown>), lat, lon };
+    });
+  }
+  if (parsed?.format === JSON_FORMAT && Array.isArray(parsed.analyses)) return parsed.analyses;
+  if (Array.isArray(data)) return data;
+  throw new Error('Not a SafeSight JSON export or a GeoJSON feature collection');
+}
+
+/**
+ * Parse an import file, skipping invalid records and IDs already in history
+ */
+export function importAnalyses(text: string, existing: RiskAnalysis[]): ImportResult {
+  const known = new Set(existing.map(a => a.id));
+  const result: ImportResult = { added: [], duplicates: 0, errors: [] };
+
+  let records: Record<string, unknown>[];
+  try {
+    records = extractRecords(JSON.parse(text));
+  } catch (error) {
+    result.errors.push((error as Error).message);
+    return result;
+  }
+
+  records.forEach((record, index) => {
+    let analysis: RiskAnalysis;
+    try {
+      analysis = migrateAnalysis(record);
+    } catch (error) {
+      result.errors.push(`Record ${index + 1}: ${(error as Error).message}`);
+      return;
+    }
+    if (known.has(analysis.id)) {
+      result.duplicates++;
+      return;
+    }
+    result.added.push(analysis);
+    known.add(analysis.id);
+  });
+
+  console.log(`[import] ${result.added.length} added, ${result.duplicates} duplicates, ${result.errors.length} invalid`);
+  return result;
+}
@@ -0,0 +1,199 @@
+/**
+ * frameSource.ts - Video Frame Source
+ * Equivalent to the cv2.VideoCapture loop in Python analysis.py
+ *
+ * Decodes the uploaded video in the browser with an off-screen <video>
+ * element, reads its real duration, resolution and frame rate, and hands
+ * out sampled frames as pixel data with their real timestamps.
+ */
+
+import { SampledFrame, VideoMetadata } from '../types';
+
+// Used when the browser cannot measure the frame rate
+const DEFAULT_FRAME_RATE = 30;
+
+// Common container frame rates that measured values are snapped to
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 120];
+
+// Number of presented frames sampled when measuring the frame rate
+const FRAME_RATE_SAMPLES = 10;
+
+export interface FrameSource {
+  metadata: VideoMetadata;
+  /** Decode a single frame by index */
+  readFrame(frameIndex: number): Promise<SampledFrame>;
+  /** Yield every `frameSkip`-th frame, stopping after `maxFrames` */
+  frames(frameSkip: number, maxFrames: number): AsyncGenerator<SampledFrame>;
+  /** Release the decoder and the object URL */
+  close(): void;
+}
+
+/**
+ * Wait for a one-off media event, rejecting if the video errors first
+ */
+function waitForEvent(video: HTMLVideoElement, event: keyof HTMLMediaElementEventMap): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(`Unable to decode video (${video.error?.message || 'unsupported format'})`));
+    };
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+}
+
+/**
+ * Snap a measured frame rate to the nearest common rate when it is close
+ */
+function snapFrameRate(measured: number): number {
+  const nearest = COMMON_FRAME_RATES.reduce((best, rate) =>
+    Math.abs(rate - measured) < Math.abs(best - measured) ? rate : best
+  );
+  return Math.abs(nearest - measured) / nearest < 0.05 ? nearest : Math.round(measured * 100) / 100;
+}
+
+/**
+ * Measure the frame rate by playing a few frames and reading the media
+ * time of each presented frame. Falls back to DEFAULT_FRAME_RATE when
+ * requestVideoFrameCallback is unavailable or playback is refused.
+ */
+async function measureFrameRate(video: HTMLVideoElement): Promise<number> {
+  if (!('requestVideoFrameCallback' in video)) return DEFAULT_FRAME_RATE;
+
+  const mediaTimes: number[] = [];
+
+  const measured = await new Promise<number>((resolve) => {
+    const timeout = setTimeout(() => finish(), 2000);
+
+    const finish = () => {
+      clearTimeout(timeout);
+      video.pause();
+
+      // Smallest positive step between presented frames; dropped frames only make steps larger
+      const steps = mediaTimes
+        .slice(1)
+        .map((t, i) => t - mediaTimes[i])
+        .filter(step => step > 0);
+      resolve(steps.length > 0 ? 1 / Math.min(...steps) : DEFAULT_FRAME_RATE);
+    };
+
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= FRAME_RATE_SAMPLES) {
+        finish();
+      } else {
+        video.requestVideoFrameCallback(onFrame);
+      }
+    };
+
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(() => finish());
+  });
+
+  video.currentTime = 0;
+  await waitForEvent(video, 'seeked');
+
+  return snapFrameRate(measured);
+}
+
+/**
+ * Read every `frameSkip`-th frame, stopping after `maxFrames`
+ */
+export async function* sampleFrames(
+  readFrame: (frameIndex: number) => Promise<SampledFrame>,
+  totalFrames: number,
+  frameSkip: number,
+  maxFrames: number
+): AsyncGenerator<SampledFrame> {
+  let processed = 0;
+  for (let frameIndex = 0; frameIndex < totalFrames; frameIndex += frameSkip) {
+    yield await readFrame(frameIndex);
+    processed++;
+    if (processed >= maxFrames) break;
+  }
+}
+
+/**
+ * Open an uploaded video file for frame-by-frame reading
+ */
+export async function openFrameSource(file: File): Promise<FrameSource> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+
+  const width = video.videoWidth;
+  const height = video.videoHeight;
+  const duration = Number.isFinite(video.duration) ? video.duration : 0;
+
+  if (width === 0 || height === 0 || duration === 0) {
+    URL.revokeObjectURL(url);
+    throw new Error(`Unable to read video dimensions for ${file.name}`);
+  }
+
+  const frameRate = await measureFrameRate(video);
+  const metadata: VideoMetadata = {
+    duration,
+    width,
+    height,
+    frameRate,
+    totalFrames: Math.max(1, Math.floor(duration * frameRate))
+  };
+
+  console.log(`[frames] ${file.name}: ${width}x${height}, ${frameRate} fps, ${duration.toFixed(2)}s, ${metadata.totalFrames} frames`);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    URL.revokeObjectURL(url);
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  const readFrame = async (frameIndex: number): Promise<SampledFrame> => {
+    const timestamp = frameIndex / frameRate;
+
+    // Seek to the middle of the frame so rounding never lands on the previous one
+    video.currentTime = Math.min(duration, (frameIndex + 0.5) / frameRate);
+    await waitForEvent(video, 'seeked');
+
+    context.drawImage(video, 0, 0, width, height);
+
+    return {
+      frameIndex,
+      timestamp,
+      width,
+      height,
+      pixels: context.getImageData(0, 0, width, height)
+    };
+  };
+
+  return {
+    metadata,
+    readFrame,
+    frames: (frameSkip, maxFrames) => sampleFrames(readFrame, metadata.totalFrames, frameSkip, maxFrames),
+    close: () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  };
+}
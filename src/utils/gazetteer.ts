@@ -0,0 +1,368 @@
+/**
+ * gazetteer.ts - Offline Gazetteer
+ *
+ * Intersections, landmarks and camera sites imported from CSV or GeoJSON
+ * and kept in IndexedDB, so locations can be found without a network.
+ * Search is fuzzy: names are split into words, common street
+ * abbreviations are expanded, and each query word may match a word of
+ * the entry exactly, by prefix (while typing) or with a typo or two.
+ */
+
+import { z } from 'zod';
+import { GazetteerEntry, GazetteerKind, LocationResult } from '../types';
+import { GeocodingProvider } from './geocodeProviders';
+import { GAZETTEER_STORE, openDatabase, promisify } from './storage';
+import { haversineMeters } from './zones';
+
+export interface GazetteerImportResult {
+  entries: GazetteerEntry[];
+  errors: string[];
+}
+
+export interface GazetteerMatch {
+  entry: GazetteerEntry;
+  score: number; // 0-1
+}
+
+const KINDS: GazetteerKind[] = ['intersection', 'landmark', 'camera', 'place'];
+
+// Higher wins ties: a camera site is usually what a survey team means
+const KIND_PRIORITY: Record<GazetteerKind, number> = { camera: 3, intersection: 2, landmark: 1, place: 0 };
+
+// Reverse lookups only name a point this close to an entry
+const REVERSE_RADIUS_M = 75;
+const MIN_SCORE = 0.5;
+
+const ABBREVIATIONS: Record<string, string> = {
+  st: 'street', rd: 'road', ave: 'avenue', av: 'avenue', blvd: 'boulevard', ln: 'lane', dr: 'drive',
+  hwy: 'highway', sq: 'square', pl: 'place', ct: 'court', pkwy: 'parkway', jn: 'junction', jct: 'junction',
+  xing: 'crossing', nr: 'near', opp: 'opposite', n: 'north', s: 'south', e: 'east', w: 'west',
+};
+
+// Words that join street names in intersections and carry no meaning of their own
+const STOP_WORDS = new Set(['and', 'at', 'the', 'of', 'x', 'with', 'corner']);
+
+/**
+ * "Main St & 5th Ave." -> ["main", "street", "5th", "avenue"]
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .flatMap(word => (ABBREVIATIONS[word] ?? word).split(' '))
+    .filter(word => word !== '' && !STOP_WORDS.has(word));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well one query word matches one entry word
+ */
+function wordScore(query: string, word: string): number {
+  if (word === query) return 1;
+  if (word.startsWith(query)) return query.length >= 2 ? 0.9 : 0.6;
+  // Allow one typo per four letters, against the whole word or the part typed so far
+  if (query.length < 4) return 0;
+  const allowed = Math.floor(query.length / 4);
+  const whole = editDistance(query, word);
+  if (whole <= allowed) return 0.8 - 0.1 * whole;
+  const typed = editDistance(query, word.slice(0, query.length));
+  return typed <= allowed ? 0.7 - 0.1 * typed : 0;
+}
+
+interface IndexedEntry {
+  entry: GazetteerEntry;
+  words: string[];
+  name: string; // tokens of the name joined, for whole-phrase matches
+}
+
+function indexEntry(entry: GazetteerEntry): IndexedEntry {
+  return {
+    entry,
+    words: [...new Set([entry.name, ...entry.aliases, entry.address ?? ''].flatMap(tokenize))],
+    name: tokenize(entry.name).join(' '),
+  };
+}
+
+function scoreEntry(queryWords: string[], indexed: IndexedEntry): number {
+  let total = 0;
+  let matched = 0;
+  for (const query of queryWords) {
+    const best = Math.max(0, ...indexed.words.map(word => wordScore(query, word)));
+    total += best;
+    if (best > 0) matched++;
+  }
+  // Every missing word costs twice: once in the average, once in the coverage
+  let score = (total / queryWords.length) * (matched / queryWords.length);
+  if (indexed.name.startsWith(queryWords.join(' '))) score = Math.min(1, score + 0.1);
+  return score;
+}
+
+/**
+ * Best matching entries for a query, best first
+ */
+function rankGazetteer(entries: IndexedEntry[], query: string, limit: number): GazetteerMatch[] {
+  const queryWords = tokenize(query);
+  if (queryWords.length === 0) return [];
+  return entries
+    .map(indexed => ({ entry: indexed.entry, score: scoreEntry(queryWords, indexed) }))
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) =>
+      b.score - a.score
+      || KIND_PRIORITY[b.entry.kind] - KIND_PRIORITY[a.entry.kind]
+      || a.entry.name.length - b.entry.name.length)
+    .slice(0, limit);
+}
+
+export function toLocationResult(entry: GazetteerEntry): LocationResult {
+  return {
+    lat: entry.lat,
+    lon: entry.lon,
+    displayName: [entry.name, entry.address].filter(Boolean).join(', '),
+    source: 'gazetteer',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+// Numbers from CSV cells arrive as strings; an empty cell is missing, not zero
+const coordinate = (limit: number) =>
+  z.preprocess(value => (value === '' ? undefined : value), z.coerce.number().min(-limit).max(limit));
+
+const entrySchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, 'name is required'),
+  kind: z.enum(KINDS).catch('place'),
+  lat: coordinate(90),
+  lon: coordinate(180),
+  aliases: z.array(z.string()).default([]),
+  address: z.string().optional(),
+});
+
+// Same place imported twice keeps one entry
+function entryId(entry: Omit<GazetteerEntry, 'id'>): string {
+  return `${tokenize(entry.name).join('-')}@${entry.lat.toFixed(5)},${entry.lon.toFixed(5)}`;
+}
+
+function toEntry(raw: unknown): GazetteerEntry {
+  const result = entrySchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`).join('; '));
+  }
+  const { id, address, ...entry } = result.data;
+  const cleaned = { ...entry, ...(address?.trim() ? { address: address.trim() } : {}) };
+  return { id: id?.trim() || entryId(cleaned), ...cleaned };
+}
+
+// "a; b | c" -> ["a", "b", "c"]
+function splitAliases(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((alias): alias is string => typeof alias === 'string');
+  return typeof value === 'string' ? value.split(/[;|]/).map(alias => alias.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Rows of an RFC 4180 CSV: quoted fields may hold commas, quotes and newlines
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += char;
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+// Header names accepted for each field
+const CSV_COLUMNS: Record<string, string[]> = {
+  id: ['id'],
+  name: ['name', 'title', 'label'],
+  kind: ['kind', 'type', 'category'],
+  lat: ['lat', 'latitude', 'y'],
+  lon: ['lon', 'lng', 'long', 'longitude', 'x'],
+  aliases: ['aliases', 'alias', 'alt_names', 'other_names'],
+  address: ['address', 'description'],
+};
+
+function parseCsv(text: string): GazetteerImportResult {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error('The CSV file is empty');
+  const names = header.map(cell => cell.trim().toLowerCase());
+  const column = (field: string) => names.findIndex(name => CSV_COLUMNS[field].includes(name));
+  const columns = Object.fromEntries(Object.keys(CSV_COLUMNS).map(field => [field, column(field)]));
+  if (columns.name < 0 || columns.lat < 0 || columns.lon < 0) {
+    throw new Error('The CSV needs name, lat and lon columns');
+  }
+
+  const result: GazetteerImportResult = { entries: [], errors: [] };
+  rows.forEach((cells, index) => {
+    const cell = (field: string) => (columns[field] >= 0 ? cells[columns[field]]?.trim() : undefined);
+    try {
+      result.entries.push(toEntry({
+        id: cell('id'),
+        name: cell('name'),
+        kind: cell('kind')?.toLowerCase(),
+        lat: cell('lat'),
+        lon: cell('lon'),
+        aliases: splitAliases(cell('aliases')),
+        address: cell('address'),
+      }));
+    } catch (error) {
+      // +2: header row, and rows count from 1
+      result.errors.push(`Row ${index + 2}: ${(error as Error).message}`);
+    }
+  });
+  return result;
+}
+
+function parseGeoJson(data: unknown): GazetteerImportResult {
+  const features = (data as { type?: string; features?: unknown })?.type === 'FeatureCollection'
+    ? (data as { features: unknown }).features
+    : null;
+  if (!Array.isArray(features)) throw new Error('Not a GeoJSON FeatureCollection');
+
+  const result: GazetteerImportResult = { entries: [], errors: [] };
+  features.forEach((feature, index) => {
+    try {
+      const { geometry, properties = {}, id } = feature as {
+        geometry?: { type?: string; coordinates?: unknown };
+        properties?: Record<string, unknown>;
+        id?: unknown;
+      };
+      if (geometry?.type !== 'Point' || !Array.isArray(geometry.coordinates)) {
+        throw new Error('only Point features are supported');
+      }
+      const [lon, lat] = geometry.coordinates;
+      result.entries.push(toEntry({
+        id: typeof id === 'string' ? id : typeof properties.id === 'string' ? properties.id : undefined,
+        name: properties.name ?? properties.title ?? properties.label,
+        kind: typeof (properties.kind ?? properties.type) === 'string' ? String(properties.kind ?? properties.type).toLowerCase() : undefined,
+        lat,
+        lon,
+        aliases: splitAliases(properties.aliases ?? properties.alt_names),
+        address: typeof properties.address === 'string' ? properties.address : undefined,
+      }));
+    } catch (error) {
+      result.errors.push(`Feature ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  return result;
+}
+
+/**
+ * Read a gazetteer file; the format is taken from the extension, then the content
+ */
+export function parseGazetteer(text: string, fileName: string): GazetteerImportResult {
+  const looksJson = /\.(geo)?json$/i.test(fileName) || text.trimStart().startsWith('{');
+  if (!looksJson) return parseCsv(text);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  return parseGeoJson(data);
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+// Search index over the stored entries, rebuilt after every change
+let indexPromise: Promise<IndexedEntry[]> | null = null;
+
+function loadIndex(): Promise<IndexedEntry[]> {
+  indexPromise ??= loadGazetteer().then(entries => entries.map(indexEntry));
+  indexPromise.catch(() => { indexPromise = null; });
+  return indexPromise;
+}
+
+export async function loadGazetteer(): Promise<GazetteerEntry[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(GAZETTEER_STORE, 'readonly').objectStore(GAZETTEER_STORE).getAll());
+}
+
+/**
+ * Add entries, replacing stored ones with the same id
+ */
+export async function saveGazetteerEntries(entries: GazetteerEntry[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(GAZETTEER_STORE, 'readwrite');
+  const store = transaction.objectStore(GAZETTEER_STORE);
+  entries.forEach(entry => store.put(entry));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  indexPromise = null;
+  console.log(`[gazetteer] Saved ${entries.length} places`);
+}
+
+export async function clearGazetteer(): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(GAZETTEER_STORE, 'readwrite').objectStore(GAZETTEER_STORE).clear());
+  indexPromise = null;
+}
+
+/**
+ * Search the stored gazetteer
+ */
+export async function searchGazetteer(query: string, limit = 8): Promise<GazetteerMatch[]> {
+  return rankGazetteer(await loadIndex(), query, limit);
+}
+
+/**
+ * The gazetteer as a geocoder: local, so never rate limited
+ */
+export function createGazetteerProvider(): GeocodingProvider {
+  return {
+    id: 'gazetteer',
+    label: 'Offline gazetteer',
+    minIntervalMs: 0,
+    async search(query, limit) {
+      return (await searchGazetteer(query, limit)).map(match => toLocationResult(match.entry));
+    },
+    async reverse(lat, lon) {
+      let nearest: GazetteerEntry | null = null;
+      let nearestDistance = REVERSE_RADIUS_M;
+      for (const { entry } of await loadIndex()) {
+        const distance = haversineMeters(lat, lon, entry.lat, entry.lon);
+        if (distance < nearestDistance) {
+          nearest = entry;
+          nearestDistance = distance;
+        }
+      }
+      return nearest && { ...toLocationResult(nearest), lat, lon };
+    },
+  };
+}
@@ -1,118 +1,201 @@
 /**
  * geocode.ts - Geolocation Utilities
  * Converted from Python geo_utils.py
+ *
+ * Lookups go through the configured GeocodingProvider, a cache and a
+ * scheduler that debounces search-as-you-type and keeps to the
+ * provider's rate limit. Failures are thrown with a readable message.
+ *
+ * The imported gazetteer answers when offline mode is on, when the
+ * browser has no connection, and when the online lookup fails.
  */
 
 import { LocationResult } from '../types';
+import { createGazetteerProvider } from './gazetteer';
+import { createGeocodeCache } from './geocodeCache';
+import { GeocodingProvider, createProviderFromEnv } from './geocodeProviders';
+import { createRequestScheduler } from './requestScheduler';
+import { haversineMeters } from './zones';
+
+// Pause in typing before a search is sent
+const SEARCH_DEBOUNCE_MS = 400;
+const SEARCH_LIMIT = 5;
+// Online results this close to a gazetteer entry are the same place
+const DUPLICATE_RADIUS_M = 30;
+const OFFLINE_MODE_KEY = 'safesight.offlineGeocoding';
+
+const provider = createProviderFromEnv();
+const scheduler = createRequestScheduler(provider.minIntervalMs);
+const cache = createGeocodeCache();
+const gazetteer = createGazetteerProvider();
+
+export function getGeocodingProvider(): GeocodingProvider {
+  return provider;
+}
+
+/**
+ * Whether lookups should skip the online geocoder
+ */
+export function isOfflineMode(): boolean {
+  return localStorage.getItem(OFFLINE_MODE_KEY) === 'true' || !navigator.onLine;
+}
 
 /**
- * Search for locations using OpenStreetMap Nominatim API
+ * The user's choice, regardless of the connection
+ */
+export function isOfflineModePreferred(): boolean {
+  return localStorage.getItem(OFFLINE_MODE_KEY) === 'true';
+}
+
+export function setOfflineMode(enabled: boolean): void {
+  if (enabled) localStorage.setItem(OFFLINE_MODE_KEY, 'true');
+  else localStorage.removeItem(OFFLINE_MODE_KEY);
+}
+
+/**
+ * Search the imported gazetteer only; never touches the network
+ */
+export async function searchOffline(query: string): Promise<LocationResult[]> {
+  const trimmed = query.trim();
+  if (trimmed.length < 2) return [];
+  try {
+    return await gazetteer.search(trimmed, SEARCH_LIMIT);
+  } catch (error) {
+    console.warn('[geocode] Gazetteer search failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Local results first, then online ones that are not the same place
+ */
+export function mergeLocationResults(local: LocationResult[], online: LocationResult[]): LocationResult[] {
+  const fresh = online.filter(result =>
+    !local.some(entry => haversineMeters(entry.lat, entry.lon, result.lat, result.lon) < DUPLICATE_RADIUS_M)
+  );
+  return [...local, ...fresh];
+}
+
+/**
+ * Display name for a point without an address
+ */
+export function coordinateLabel(lat: number, lon: number): string {
+  return `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+}
+
+/**
+ * Best match for an address, or null when there is none
  * Equivalent to Python geocode_address_fallback()
  */
 export async function geocodeLocation(address: string): Promise<LocationResult | null> {
   if (!address || address.length < 2) return null;
-  
+  if (isOfflineMode()) return (await searchOffline(address))[0] ?? null;
+
+  const key = `search:${provider.id}:1:${address.trim().toLowerCase()}`;
+  const cached = await cache.get<LocationResult[]>(key);
+  if (cached) return cached[0] ?? null;
+
+  let results: LocationResult[];
   try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&limit=1`,
-      {
-        headers: {
-          'User-Agent': 'SafeSightAI/1.0 (Traffic Risk Analyzer)'
-        }
-      }
-    );
-    
-    const data = await response.json();
-    
-    if (data && data.length > 0) {
-      return {
-        lat: parseFloat(data[0].lat),
-        lon: parseFloat(data[0].lon),
-        displayName: data[0].display_name
-      };
-    }
-    
-    return null;
+    results = await scheduler.run(signal => provider.search(address.trim(), 1, signal));
   } catch (error) {
-    console.error('[geocode] Error:', error);
-    return null;
+    const [local] = await searchOffline(address);
+    if (local) return local;
+    throw error;
   }
+  await cache.set(key, results);
+  return results[0] ?? null;
+}
+
+/**
+ * Drop a search that is still waiting or in flight
+ */
+export function cancelLocationSearch(): void {
+  scheduler.cancel('search');
 }
 
 /**
  * Search for multiple location suggestions
+ * Meant to be called on every keystroke: a newer query supersedes an
+ * older one, which then rejects with an AbortError. Empty in offline
+ * mode; pair with searchOffline() for the gazetteer's results.
  */
 export async function searchLocations(query: string): Promise<LocationResult[]> {
-  if (!query || query.length < 3) return [];
-  
+  const trimmed = query.trim();
+  if (trimmed.length < 3 || isOfflineMode()) {
+    cancelLocationSearch();
+    return [];
+  }
+
+  const key = `search:${provider.id}:${SEARCH_LIMIT}:${trimmed.toLowerCase()}`;
+  const cached = await cache.get<LocationResult[]>(key);
+  if (cached) {
+    cancelLocationSearch();
+    return cached;
+  }
+
+  const results = await scheduler.run(
+    signal => provider.search(trimmed, SEARCH_LIMIT, signal),
+    { channel: 'search', debounceMs: SEARCH_DEBOUNCE_MS }
+  );
+  await cache.set(key, results);
+  return results;
+}
+
+/**
+ * Address of a point, or null when the provider knows nothing there
+ * Pass a channel to have newer lookups supersede older ones
+ */
+export async function reverseGeocode(lat: number, lon: number, channel?: string): Promise<LocationResult | null> {
+  if (isOfflineMode()) {
+    if (channel) scheduler.cancel(channel);
+    return gazetteer.reverse(lat, lon);
+  }
+
+  // ~1 m grid, so tiny jitters share a cache entry
+  const key = `reverse:${provider.id}:${lat.toFixed(5)},${lon.toFixed(5)}`;
+  const cached = await cache.get<LocationResult | null>(key);
+  if (cached !== undefined) {
+    if (channel) scheduler.cancel(channel);
+    return cached && { ...cached, lat, lon };
+  }
+
+  let result: LocationResult | null;
   try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=5`,
-      {
-        headers: {
-          'User-Agent': 'SafeSightAI/1.0 (Traffic Risk Analyzer)'
-        }
-      }
+    result = await scheduler.run(
+      signal => provider.reverse(lat, lon, signal),
+      channel ? { channel, debounceMs: SEARCH_DEBOUNCE_MS } : {}
     );
-    
-    const data = await response.json();
-    
-    return data.map((item: { lat: string; lon: string; display_name: string }) => ({
-      lat: parseFloat(item.lat),
-      lon: parseFloat(item.lon),
-      displayName: item.display_name
-    }));
   } catch (error) {
-    console.error('[geocode] Search error:', error);
-    return [];
+    if ((error as Error).name === 'AbortError') throw error;
+    const local = await gazetteer.reverse(lat, lon).catch(() => null);
+    if (local) return local;
+    throw error;
   }
+  await cache.set(key, result);
+  // Keep the exact point asked about, not the address's own coordinates
+  return result && { ...result, lat, lon };
 }
 
+const GEOLOCATION_ERRORS: Record<number, string> = {
+  1: 'Location permission was denied',
+  2: 'Your position is unavailable',
+  3: 'Timed out while finding your position',
+};
+
 /**
  * Get user's current location using browser Geolocation API
  * Equivalent to Python get_live_location() but using browser APIs
  */
-export async function getLiveLocation(): Promise<LocationResult | null> {
-  return new Promise((resolve) => {
-    if (!navigator.geolocation) {
-      console.log('[geocode] Geolocation not supported');
-      resolve(null);
-      return;
-    }
-    
+export async function getLiveLocation(): Promise<LocationResult> {
+  if (!navigator.geolocation) {
+    throw new Error('Geolocation is not supported by this browser');
+  }
+
+  const position = await new Promise<GeolocationPosition>((resolve, reject) => {
     navigator.geolocation.getCurrentPosition(
-      async (position) => {
-        const { latitude, longitude } = position.coords;
-        
-        // Reverse geocode to get address
-        try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`,
-            {
-              headers: {
-                'User-Agent': 'SafeSightAI/1.0'
-              }
-            }
-          );
-          const data = await response.json();
-          
-          resolve({
-            lat: latitude,
-            lon: longitude,
-            displayName: data.display_name || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
-          });
-        } catch {
-          resolve({
-            lat: latitude,
-            lon: longitude,
-            displayName: `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
-          });
-        }
-      },
-      (error) => {
-        console.log('[geocode] Geolocation error:', error.message);
-        resolve(null);
-      },
+      resolve,
+      (error) => reject(new Error(GEOLOCATION_ERRORS[error.code] ?? error.message)),
       {
         enableHighAccuracy: true,
         timeout: 10000,
@@ -120,6 +203,16 @@ export async function getLiveLocation(): Promise<LocationResult | null> {
       }
     );
   });
+  const { latitude, longitude } = position.coords;
+
+  // The position is what matters; an address is a nicety
+  try {
+    const address = await reverseGeocode(latitude, longitude);
+    if (address) return address;
+  } catch (error) {
+    console.warn('[geocode] Reverse geocoding failed, using coordinates:', error);
+  }
+  return { lat: latitude, lon: longitude, displayName: coordinateLabel(latitude, longitude) };
 }
 
 /**
@@ -0,0 +1,88 @@
+/**
+ * geocodeCache.ts - Geocoding Cache
+ *
+ * Keeps forward and reverse lookup results in a small in-memory LRU in
+ * front of an IndexedDB store, so repeated searches and reopened pages
+ * do not spend the geocoder's rate limit. The cache is an optimisation:
+ * if IndexedDB fails, lookups still work from memory and the network.
+ */
+
+import { GEOCODE_STORE, openDatabase, promisify } from './storage';
+
+export interface GeocodeCache {
+  /** Cached value, or undefined on a miss (null is a cached "nothing found") */
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+interface CacheEntry {
+  key: string;
+  value: unknown;
+  storedAt: number; // epoch ms
+}
+
+const DEFAULT_MEMORY_ENTRIES = 200;
+const DEFAULT_PERSISTED_ENTRIES = 2000;
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function createGeocodeCache({
+  memoryEntries = DEFAULT_MEMORY_ENTRIES,
+  persistedEntries = DEFAULT_PERSISTED_ENTRIES,
+  maxAgeMs = DEFAULT_MAX_AGE_MS,
+} = {}): GeocodeCache {
+  // Map keeps insertion order, so the first key is the least recently used
+  const memory = new Map<string, CacheEntry>();
+
+  const remember = (entry: CacheEntry) => {
+    memory.delete(entry.key);
+    memory.set(entry.key, entry);
+    if (memory.size > memoryEntries) memory.delete(memory.keys().next().value!);
+  };
+
+  const isFresh = (entry: CacheEntry) => Date.now() - entry.storedAt < maxAgeMs;
+
+  // Drop the oldest persisted entries once the store outgrows its limit
+  const prune = async (db: IDBDatabase) => {
+    const store = db.transaction(GEOCODE_STORE, 'readwrite').objectStore(GEOCODE_STORE);
+    const excess = (await promisify(store.count())) - persistedEntries;
+    if (excess <= 0) return;
+    const oldest = await promisify(store.index('storedAt').getAllKeys(null, excess));
+    const cleanup = db.transaction(GEOCODE_STORE, 'readwrite').objectStore(GEOCODE_STORE);
+    await Promise.all(oldest.map(key => promisify(cleanup.delete(key))));
+  };
+
+  return {
+    async get<T>(key: string) {
+      const cached = memory.get(key);
+      if (cached && isFresh(cached)) {
+        remember(cached);
+        return cached.value as T;
+      }
+      try {
+        const db = await openDatabase();
+        const stored: CacheEntry | undefined = await promisify(
+          db.transaction(GEOCODE_STORE, 'readonly').objectStore(GEOCODE_STORE).get(key)
+        );
+        if (stored && isFresh(stored)) {
+          remember(stored);
+          return stored.value as T;
+        }
+      } catch (error) {
+        console.warn('[geocode] Cache read failed:', error);
+      }
+      return undefined;
+    },
+
+    async set(key, value) {
+      const entry: CacheEntry = { key, value, storedAt: Date.now() };
+      remember(entry);
+      try {
+        const db = await openDatabase();
+        await promisify(db.transaction(GEOCODE_STORE, 'readwrite').objectStore(GEOCODE_STORE).put(entry));
+        await prune(db);
+      } catch (error) {
+        console.warn('[geocode] Cache write failed:', error);
+      }
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * geocodeProviders.ts - Geocoding Services
+ *
+ * Forward and reverse lookups behind one interface, so the app can use
+ * the public Nominatim or Photon instances or a self-hosted one. Each
+ * provider states how often it may be called; geocode.ts schedules
+ * requests to respect that.
+ *
+ * Choose with VITE_GEOCODER (nominatim | photon) and point at your own
+ * instance with VITE_GEOCODER_URL.
+ */
+
+import { z } from 'zod';
+import { LocationResult } from '../types';
+import { parseWithSchema } from '../types/schema';
+
+export interface GeocodingProvider {
+  id: string; // distinguishes cached results of different services
+  label: string;
+  minIntervalMs: number; // shortest allowed gap between requests
+  search(query: string, limit: number, signal?: AbortSignal): Promise<LocationResult[]>;
+  reverse(lat: number, lon: number, signal?: AbortSignal): Promise<LocationResult | null>;
+}
+
+export interface ProviderOptions {
+  baseUrl?: string;
+  minIntervalMs?: number;
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const PHOTON_URL = 'https://photon.komoot.io';
+// Sent where the browser allows it; Nominatim's policy asks clients to identify themselves
+const USER_AGENT = 'SafeSightAI/1.0 (Traffic Risk Analyzer)';
+
+/**
+ * GET a JSON document, turning failures into messages worth showing
+ */
+async function fetchJson(label: string, url: string, signal?: AbortSignal): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { 'User-Agent': USER_AGENT }, signal });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new Error(`${label} is unreachable. Check your connection.`);
+  }
+  if (response.status === 429) {
+    throw new Error(`${label} rate limit reached. Try again in a moment.`);
+  }
+  if (!response.ok) {
+    throw new Error(`${label} request failed (${response.status})`);
+  }
+  try {
+    return await response.json();
+  } catch {
+    throw new Error(`${label} sent an invalid response`);
+  }
+}
+
+const nominatimPlaceSchema = z.object({
+  lat: z.coerce.number(),
+  lon: z.coerce.number(),
+  display_name: z.string(),
+});
+
+/**
+ * OpenStreetMap Nominatim; the public instance allows one request per second
+ */
+export function createNominatimProvider({ baseUrl = NOMINATIM_URL, minIntervalMs = 1000 }: ProviderOptions = {}): GeocodingProvider {
+  const label = 'Nominatim';
+  const toResult = (place: z.infer<typeof nominatimPlaceSchema>): LocationResult => ({
+    lat: place.lat,
+    lon: place.lon,
+    displayName: place.display_name,
+    source: 'geocoder',
+  });
+
+  return {
+    id: `nominatim:${baseUrl}`,
+    label,
+    minIntervalMs,
+    async search(query, limit, signal) {
+      const data = await fetchJson(label, `${baseUrl}/search?format=jsonv2&q=${encodeURIComponent(query)}&limit=${limit}`, signal);
+      return parseWithSchema(z.array(nominatimPlaceSchema), data, `${label} response`).map(toResult);
+    },
+    async reverse(lat, lon, signal) {
+      const data = await fetchJson(label, `${baseUrl}/reverse?format=jsonv2&lat=${lat}&lon=${lon}`, signal);
+      // Nominatim answers 200 with an error field when nothing is near
+      if (data && typeof data === 'object' && 'error' in data) return null;
+      return toResult(parseWithSchema(nominatimPlaceSchema, data, `${label} response`));
+    },
+  };
+}
+
+const photonCollectionSchema = z.object({
+  features: z.array(z.object({
+    geometry: z.object({ coordinates: z.tuple([z.number(), z.number()]) }),
+    properties: z.record(z.string(), z.unknown()),
+  })),
+});
+
+// Photon splits the address into parts; join the ones present, most specific first
+const PHOTON_NAME_PARTS = ['name', 'housenumber', 'street', 'district', 'city', 'county', 'state', 'country'];
+
+/**
+ * Komoot Photon, an OpenStreetMap geocoder built for search-as-you-type
+ */
+export function createPhotonProvider({ baseUrl = PHOTON_URL, minIntervalMs = 500 }: ProviderOptions = {}): GeocodingProvider {
+  const label = 'Photon';
+  const toResults = (data: unknown): LocationResult[] =>
+    parseWithSchema(photonCollectionSchema, data, `${label} response`).features.map(({ geometry, properties }) => {
+      const [lon, lat] = geometry.coordinates;
+      const parts = PHOTON_NAME_PARTS.map(part => properties[part]).filter((value): value is string => typeof value === 'string');
+      return {
+        lat,
+        lon,
+        displayName: [...new Set(parts)].join(', ') || `${lat.toFixed(4)}, ${lon.toFixed(4)}`,
+        source: 'geocoder' as const,
+      };
+    });
+
+  return {
+    id: `photon:${baseUrl}`,
+    label,
+    minIntervalMs,
+    async search(query, limit, signal) {
+      return toResults(await fetchJson(label, `${baseUrl}/api/?q=${encodeURIComponent(query)}&limit=${limit}`, signal));
+    },
+    async reverse(lat, lon, signal) {
+      return toResults(await fetchJson(label, `${baseUrl}/reverse?lat=${lat}&lon=${lon}&limit=1`, signal))[0] ?? null;
+    },
+  };
+}
+
+/**
+ * Provider chosen by the build environment, Nominatim by default
+ */
+export function createProviderFromEnv(): GeocodingProvider {
+  const kind = import.meta.env?.VITE_GEOCODER as string | undefined;
+  const baseUrl = (import.meta.env?.VITE_GEOCODER_URL as string | undefined) || undefined;
+  return kind === 'photon' ? createPhotonProvider({ baseUrl }) : createNominatimProvider({ baseUrl });
+}
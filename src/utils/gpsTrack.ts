@@ -0,0 +1,57 @@
+/**
+ * gpsTrack.ts - Risk Along a Route
+ *
+ * Moving footage carries a GPS track (see mp4Metadata.ts). These helpers
+ * find where the camera was at a moment of the clip and split the route
+ * into stretches coloured by the risk scored while driving them.
+ */
+
+import { FrameAnalysis, GpsPoint, RiskLevel, RiskModelConfig } from '../types';
+import { scoreToLevel } from './riskLogic';
+
+export interface RouteSegment {
+  positions: [number, number][]; // [lat, lon]
+  // null where no frame was sampled: the stretch was never scored, not scored low
+  riskLevel: RiskLevel | null;
+  peakScore: number | null;
+}
+
+/**
+ * Camera position `time` seconds into the clip, interpolated between fixes
+ */
+export function positionAt(track: GpsPoint[], time: number): [number, number] | null {
+  if (track.length === 0) return null;
+  const next = track.findIndex(point => point.time >= time);
+  if (next === 0) return [track[0].lat, track[0].lon];
+  if (next === -1) return [track[track.length - 1].lat, track[track.length - 1].lon];
+
+  const a = track[next - 1];
+  const b = track[next];
+  const t = b.time > a.time ? (time - a.time) / (b.time - a.time) : 0;
+  return [a.lat + (b.lat - a.lat) * t, a.lon + (b.lon - a.lon) * t];
+}
+
+/**
+ * The route split where the risk level changes; each leg between two
+ * fixes takes the highest frame score recorded along it, and legs
+ * without sampled frames are left unscored
+ */
+export function routeRiskSegments(track: GpsPoint[], frames: FrameAnalysis[], model?: RiskModelConfig): RouteSegment[] {
+  const segments: RouteSegment[] = [];
+  for (let i = 1; i < track.length; i++) {
+    const from = track[i - 1];
+    const to = track[i];
+    const scores = frames.filter(f => f.timestamp >= from.time && f.timestamp < to.time).map(f => f.score);
+    const peakScore = scores.length > 0 ? Math.max(...scores) : null;
+    const riskLevel = peakScore === null ? null : scoreToLevel(peakScore, model);
+
+    const current = segments.at(-1);
+    if (current && current.riskLevel === riskLevel) {
+      current.positions.push([to.lat, to.lon]);
+      if (peakScore !== null) current.peakScore = Math.max(current.peakScore ?? 0, peakScore);
+    } else {
+      segments.push({ positions: [[from.lat, from.lon], [to.lat, to.lon]], riskLevel, peakScore });
+    }
+  }
+  return segments;
+}
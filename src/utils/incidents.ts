@@ -0,0 +1,123 @@
+/**
+ * incidents.ts - Incident Extraction
+ *
+ * Groups consecutive risky frames into discrete incidents with start and
+ * end times, a peak score and the road users involved, so each event
+ * behind the aggregate violation counts can be reviewed on its own.
+ */
+
+import { FrameAnalysis, Incident, IncidentType, SignalViolation } from '../types';
+
+// Frame score counted as high risk (same cut as "High-Risk Frame Clusters")
+const HIGH_RISK_SCORE = 60;
+
+// Risky frames closer together than this belong to the same incident
+const MAX_GAP_S = 1.0;
+
+// When several causes appear in one run, the incident takes the first listed
+const TYPE_PRIORITY: IncidentType[] = [
+  'vehicle-pedestrian-conflict',
+  'vehicle-conflict',
+  'pedestrian-proximity',
+  'high-risk-frames',
+];
+
+export const INCIDENT_LABELS: Record<IncidentType, string> = {
+  'vehicle-pedestrian-conflict': 'Vehicle-pedestrian conflict',
+  'vehicle-conflict': 'Vehicle near-collision',
+  'pedestrian-proximity': 'Pedestrian proximity',
+  'high-risk-frames': 'High-risk period',
+  'red-light': 'Red-light violation',
+  'stop-sign': 'Stop sign violation',
+};
+
+/**
+ * Causes present in a frame, or none if the frame is not risky
+ */
+function frameCauses(frame: FrameAnalysis): Set<IncidentType> {
+  const causes = new Set<IncidentType>();
+  if (frame.conflictPairs.some(c => c.kind === 'vehicle-person')) causes.add('vehicle-pedestrian-conflict');
+  if (frame.conflictPairs.some(c => c.kind === 'vehicle-vehicle') || frame.overlaps > 0) causes.add('vehicle-conflict');
+  if (frame.proximityRisks > 0) causes.add('pedestrian-proximity');
+  if (frame.score > HIGH_RISK_SCORE) causes.add('high-risk-frames');
+  return causes;
+}
+
+/**
+ * Track IDs of the road users behind a frame's risk
+ */
+function involvedTracks(frame: FrameAnalysis): number[] {
+  const trackOf = (index: number) => frame.detections[index]?.trackId;
+  const ids = [
+    ...frame.conflictPairs.flatMap(c => c.trackIds),
+    ...frame.overlapPairs.flat().map(trackOf),
+    ...frame.proximityPairs.flat().map(trackOf),
+  ];
+  return ids.filter((id): id is number => id !== undefined && id >= 0);
+}
+
+function severityOf(type: IncidentType, peakScore: number): Incident['severity'] {
+  if (type === 'vehicle-pedestrian-conflict' || type === 'red-light') return 'high';
+  if (peakScore > 75) return 'high';
+  if (peakScore > 40) return 'medium';
+  return 'low';
+}
+
+/**
+ * Build incidents from scored frames and signal violations, ordered by start time
+ */
+export function extractIncidents(frames: FrameAnalysis[], signalViolations: SignalViolation[] = []): Incident[] {
+  const incidents: Incident[] = [];
+  let run: FrameAnalysis[] = [];
+  let runCauses = new Set<IncidentType>();
+
+  const closeRun = () => {
+    if (run.length === 0) return;
+    const peak = run.reduce((best, f) => (f.score > best.score ? f : best), run[0]);
+    const type = TYPE_PRIORITY.find(t => runCauses.has(t))!;
+    const trackIds = new Set(run.flatMap(involvedTracks));
+    // A run of high scores alone is attributed to everyone in the peak frame
+    if (trackIds.size === 0) {
+      peak.detections.forEach(d => d.trackId !== undefined && trackIds.add(d.trackId));
+    }
+    incidents.push({
+      id: `inc-${run[0].frameIndex}`,
+      type,
+      startTime: run[0].timestamp,
+      endTime: run[run.length - 1].timestamp,
+      peakScore: peak.score,
+      peakFrameIndex: peak.frameIndex,
+      trackIds: [...trackIds].sort((a, b) => a - b),
+      severity: severityOf(type, peak.score),
+    });
+    run = [];
+    runCauses = new Set();
+  };
+
+  for (const frame of frames) {
+    const causes = frameCauses(frame);
+    if (causes.size === 0) continue;
+    const last = run[run.length - 1];
+    if (last && frame.timestamp - last.timestamp > MAX_GAP_S) closeRun();
+    run.push(frame);
+    causes.forEach(c => runCauses.add(c));
+  }
+  closeRun();
+
+  // Signal violations are instants at the stop line crossing
+  for (const violation of signalViolations) {
+    const frame = frames.find(f => f.timestamp === violation.timestamp);
+    incidents.push({
+      id: `${violation.kind}-${violation.trackId}`,
+      type: violation.kind,
+      startTime: violation.timestamp,
+      endTime: violation.timestamp,
+      peakScore: frame?.score ?? 0,
+      peakFrameIndex: frame?.frameIndex ?? 0,
+      trackIds: [violation.trackId],
+      severity: severityOf(violation.kind, frame?.score ?? 0),
+    });
+  }
+
+  return incidents.sort((a, b) => a.startTime - b.startTime);
+}
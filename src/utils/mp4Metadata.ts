@@ -0,0 +1,437 @@
+/**
+ * mp4Metadata.ts - Location and Time from Video Metadata
+ *
+ * Reads what cameras record inside MP4/MOV containers without decoding
+ * the video: the creation time (mvhd, ©day or Apple's QuickTime keys),
+ * a fixed position (©xyz or Apple's ISO 6709 key) and, for GoPro
+ * footage, the GPS track in the GPMF telemetry stream. Only the boxes
+ * needed are read from the File, so multi-gigabyte clips are fine.
+ * Other dashcam GPS formats are not recognised.
+ */
+
+import { GpsPoint } from '../types';
+import { haversineMeters } from './zones';
+
+export interface Mp4Metadata {
+  recordedAt: Date | null;
+  location: { lat: number; lon: number } | null; // where recording started
+  gpsTrack: GpsPoint[]; // empty unless the camera moved while recording
+}
+
+// A box located in a DataView: payload from `start` to `end`
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+// Top-level box located in the file
+interface FileBox {
+  type: string;
+  offset: number;
+  size: number;
+}
+
+// The movie header box holds every table we read; larger ones are not from a camera
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+// GoPro writes one telemetry sample a second; more than a day's worth is a corrupt table
+const MAX_TELEMETRY_SAMPLES = 100_000;
+// Seconds from 1904-01-01, the QuickTime epoch, to 1970-01-01
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+// GoPro logs 10-18 fixes a second; one a second is plenty to place risk along a route
+const TRACK_INTERVAL_S = 1;
+// A track that never leaves this radius is a parked camera, not moving footage
+const STATIONARY_RADIUS_M = 25;
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readUint64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset));
+
+// Whether `length` bytes from `offset` lie inside the box's payload
+const fits = (box: Box, offset: number, length: number) => offset >= box.start && offset + length <= box.end;
+
+async function readBytes(file: Blob, offset: number, length: number): Promise<DataView> {
+  return new DataView(await file.slice(offset, offset + length).arrayBuffer());
+}
+
+/**
+ * Boxes laid out back to back between `start` and `end`
+ */
+function childBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourCC(view, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * First box along a path of types, e.g. ['mdia', 'minf', 'stbl']
+ */
+function findBox(view: DataView, parent: Box, path: string[]): Box | null {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box = childBoxes(view, box.start, box.end).find(child => child.type === type);
+    if (!box) return null;
+  }
+  return box;
+}
+
+/**
+ * Top-level boxes of the file, reading only their headers
+ */
+async function topLevelBoxes(file: File): Promise<FileBox[]> {
+  const boxes: FileBox[] = [];
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16);
+    let size = header.getUint32(0);
+    if (size === 1 && header.byteLength >= 16) size = readUint64(header, 8);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) break;
+    boxes.push({ type: fourCC(header, 4), offset, size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function quickTimeDate(seconds: number): Date | null {
+  return seconds > 0 ? new Date((seconds - QUICKTIME_EPOCH_OFFSET) * 1000) : null;
+}
+
+/**
+ * Creation time in the movie header; cameras often write local time here
+ */
+function readMovieHeaderDate(view: DataView, moov: Box): Date | null {
+  const mvhd = findBox(view, moov, ['mvhd']);
+  if (!mvhd || !fits(mvhd, mvhd.start, 1)) return null;
+  const version = view.getUint8(mvhd.start);
+  if (!fits(mvhd, mvhd.start, version === 1 ? 12 : 8)) return null;
+  return quickTimeDate(version === 1 ? readUint64(view, mvhd.start + 4) : view.getUint32(mvhd.start + 4));
+}
+
+/**
+ * Parse an ISO 6709 point in decimal degrees, e.g. "+37.7749-122.4194+010.000/"
+ */
+export function parseIso6709(text: string): { lat: number; lon: number } | null {
+  const match = /^([+-]\d{1,2}(?:\.\d+)?)([+-]\d{1,3}(?:\.\d+)?)/.exec(text.trim());
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lon = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180 || (lat === 0 && lon === 0)) return null;
+  return { lat, lon };
+}
+
+// "2023-05-01T12:00:00+0200" and similar; Date wants a colon in the offset
+function parseDateText(text: string): Date | null {
+  const date = new Date(text.trim().replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const utf8 = new TextDecoder();
+
+function readText(view: DataView, start: number, end: number): string {
+  return utf8.decode(new Uint8Array(view.buffer, view.byteOffset + start, end - start)).replace(/\0+$/, '');
+}
+
+interface TaggedMetadata {
+  location: { lat: number; lon: number } | null;
+  recordedAt: Date | null;
+}
+
+/**
+ * ©xyz and ©day in the user data box: length, language, then the text
+ */
+function readUserData(view: DataView, moov: Box): TaggedMetadata {
+  const result: TaggedMetadata = { location: null, recordedAt: null };
+  const udta = findBox(view, moov, ['udta']);
+  if (!udta) return result;
+  for (const box of childBoxes(view, udta.start, udta.end)) {
+    if ((box.type !== '©xyz' && box.type !== '©day') || !fits(box, box.start, 4)) continue;
+    const length = view.getUint16(box.start);
+    const text = readText(view, box.start + 4, Math.min(box.end, box.start + 4 + length));
+    if (box.type === '©xyz') result.location ??= parseIso6709(text);
+    else result.recordedAt ??= parseDateText(text);
+  }
+  return result;
+}
+
+/**
+ * Apple's com.apple.quicktime.* keys, written by iPhones and some dashcams
+ */
+function readQuickTimeKeys(view: DataView, moov: Box): TaggedMetadata {
+  const result: TaggedMetadata = { location: null, recordedAt: null };
+  const meta = findBox(view, moov, ['meta']);
+  if (!meta) return result;
+  // QuickTime's meta box has no version field, the ISO one does
+  const first = childBoxes(view, meta.start, meta.end)[0];
+  const children = first?.type === 'hdlr'
+    ? childBoxes(view, meta.start, meta.end)
+    : childBoxes(view, meta.start + 4, meta.end);
+  const keysBox = children.find(box => box.type === 'keys');
+  const ilst = children.find(box => box.type === 'ilst');
+  if (!keysBox || !ilst) return result;
+
+  const keys: string[] = [];
+  let offset = keysBox.start + 8; // version, flags and entry count
+  while (offset + 8 <= keysBox.end) {
+    const size = view.getUint32(offset);
+    if (size < 8 || offset + size > keysBox.end) break;
+    keys.push(readText(view, offset + 8, offset + size));
+    offset += size;
+  }
+
+  for (const item of childBoxes(view, ilst.start, ilst.end)) {
+    // The item's type is its 1-based key index as a big-endian integer
+    const index = [...item.type].reduce((value, char) => value * 256 + char.charCodeAt(0), 0);
+    const key = keys[index - 1];
+    const data = childBoxes(view, item.start, item.end).find(box => box.type === 'data');
+    if (!key || !data || data.end - data.start < 8) continue;
+    const text = readText(view, data.start + 8, data.end); // type indicator and locale come first
+    if (key === 'com.apple.quicktime.location.ISO6709') result.location ??= parseIso6709(text);
+    if (key === 'com.apple.quicktime.creationdate') result.recordedAt ??= parseDateText(text);
+  }
+  return result;
+}
+
+// One sample of a track: where it is in the file and when it plays
+interface TrackSample {
+  offset: number;
+  size: number;
+  time: number; // seconds
+  duration: number; // seconds
+}
+
+/**
+ * Samples of the GoPro telemetry track (sample format "gpmd"), if any
+ */
+function findTelemetrySamples(view: DataView, moov: Box): TrackSample[] {
+  for (const trak of childBoxes(view, moov.start, moov.end).filter(box => box.type === 'trak')) {
+    const stsd = findBox(view, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+    if (!stsd || stsd.end - stsd.start < 16 || fourCC(view, stsd.start + 12) !== 'gpmd') continue;
+
+    const mdhd = findBox(view, trak, ['mdia', 'mdhd']);
+    const stbl = findBox(view, trak, ['mdia', 'minf', 'stbl']);
+    if (!mdhd || !stbl || !fits(mdhd, mdhd.start, 1)) continue;
+    const timescaleAt = mdhd.start + (view.getUint8(mdhd.start) === 1 ? 20 : 12);
+    const timescale = fits(mdhd, timescaleAt, 4) ? view.getUint32(timescaleAt) : 0;
+    const table = (type: string) => findBox(view, stbl, [type]);
+    const stts = table('stts');
+    const stsz = table('stsz');
+    const stsc = table('stsc');
+    const stco = table('stco') ?? table('co64');
+    if (!timescale || !stts || !stsz || !stsc || !stco) continue;
+    if (!fits(stts, stts.start, 8) || !fits(stsz, stsz.start, 12) || !fits(stsc, stsc.start, 8) || !fits(stco, stco.start, 8)) continue;
+
+    // Entry counts are clamped to what the table actually holds
+    const entries = (box: Box, header: number, entrySize: number) =>
+      Math.min(view.getUint32(box.start + header - 4), Math.floor((box.end - box.start - header) / entrySize));
+
+    // Sample sizes
+    const fixedSize = view.getUint32(stsz.start + 4);
+    const sampleCount = Math.min(fixedSize ? view.getUint32(stsz.start + 8) : entries(stsz, 12, 4), MAX_TELEMETRY_SAMPLES);
+    const sizes = Array.from({ length: sampleCount }, (_, i) => fixedSize || view.getUint32(stsz.start + 12 + i * 4));
+
+    // Chunk offsets, then samples per chunk from the runs in stsc
+    const is64 = stco.type === 'co64';
+    const chunkOffsets = Array.from({ length: entries(stco, 8, is64 ? 8 : 4) }, (_, i) =>
+      is64 ? readUint64(view, stco.start + 8 + i * 8) : view.getUint32(stco.start + 8 + i * 4)
+    );
+    const runs = Array.from({ length: entries(stsc, 8, 12) }, (_, i) => ({
+      firstChunk: view.getUint32(stsc.start + 8 + i * 12),
+      samplesPerChunk: view.getUint32(stsc.start + 12 + i * 12),
+    }));
+    const offsets: number[] = [];
+    chunkOffsets.forEach((chunkOffset, chunk) => {
+      const run = runs.filter(r => r.firstChunk <= chunk + 1).at(-1);
+      let offset = chunkOffset;
+      for (let i = 0; i < (run?.samplesPerChunk ?? 0) && offsets.length < sampleCount; i++) {
+        offsets.push(offset);
+        offset += sizes[offsets.length - 1];
+      }
+    });
+
+    // Timing from the sample-to-time table
+    const durations: number[] = [];
+    for (let i = 0, count = entries(stts, 8, 8); i < count && durations.length < sampleCount; i++) {
+      const runLength = view.getUint32(stts.start + 8 + i * 8);
+      const delta = view.getUint32(stts.start + 12 + i * 8);
+      for (let j = 0; j < runLength && durations.length < sampleCount; j++) durations.push(delta / timescale);
+    }
+
+    let time = 0;
+    return offsets.map((offset, i) => {
+      const sample = { offset, size: sizes[i], time, duration: durations[i] ?? durations.at(-1) ?? 1 };
+      time += sample.duration;
+      return sample;
+    });
+  }
+  return [];
+}
+
+// A GPS reading before it is given a time in the video
+interface GpsFix {
+  lat: number;
+  lon: number;
+  altitude: number;
+  speed: number;
+}
+
+interface TelemetryPayload {
+  fixes: GpsFix[];
+  utc: Date | null; // time of the first fix
+}
+
+// Value readers for the GPMF types used by GPS streams
+const GPMF_READERS: Record<string, [number, (view: DataView, offset: number) => number]> = {
+  l: [4, (view, offset) => view.getInt32(offset)],
+  L: [4, (view, offset) => view.getUint32(offset)],
+  s: [2, (view, offset) => view.getInt16(offset)],
+  S: [2, (view, offset) => view.getUint16(offset)],
+  b: [1, (view, offset) => view.getInt8(offset)],
+  B: [1, (view, offset) => view.getUint8(offset)],
+};
+
+function readGpmfValues(view: DataView, offset: number, end: number, type: string, count: number): number[] {
+  const reader = GPMF_READERS[type];
+  if (!reader) return [];
+  const [size, read] = reader;
+  if (offset + size * count > end) return [];
+  return Array.from({ length: count }, (_, i) => read(view, offset + i * size));
+}
+
+// GPSU is "yymmddhhmmss.sss" in UTC
+function parseGpsUtc(text: string): Date | null {
+  const match = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2}(?:\.\d+)?)/.exec(text);
+  if (!match) return null;
+  const [, yy, mm, dd, hh, mi, ss] = match;
+  return new Date(Date.UTC(2000 + Number(yy), Number(mm) - 1, Number(dd), Number(hh), Number(mi), 0) + Number(ss) * 1000);
+}
+
+/**
+ * GPS readings in one GPMF payload: KLV records (four-character key,
+ * type, struct size, repeat count) where type 0 nests more records.
+ * Sticky values such as SCAL apply to the readings after them in a stream.
+ */
+function parseTelemetryPayload(view: DataView, start: number, end: number, payload: TelemetryPayload): void {
+  let scale: number[] = [1];
+  let fix = 3; // assume a lock unless the stream says otherwise
+  let offset = start;
+  while (offset + 8 <= end) {
+    const key = fourCC(view, offset);
+    const type = String.fromCharCode(view.getUint8(offset + 4));
+    const structSize = view.getUint8(offset + 5);
+    const repeat = view.getUint16(offset + 6);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + structSize * repeat;
+    if (dataEnd > end) break;
+
+    if (view.getUint8(offset + 4) === 0) {
+      parseTelemetryPayload(view, dataStart, dataEnd, payload);
+    } else if (key === 'SCAL') {
+      scale = readGpmfValues(view, dataStart, dataEnd, type, repeat).map(value => value || 1);
+    } else if (key === 'GPSF') {
+      fix = readGpmfValues(view, dataStart, dataEnd, type, 1)[0] ?? fix;
+    } else if (key === 'GPSU') {
+      payload.utc ??= parseGpsUtc(readText(view, dataStart, dataEnd));
+    } else if (key === 'GPS5' && fix >= 2) {
+      for (let i = 0; i < repeat; i++) {
+        const values = readGpmfValues(view, dataStart + i * structSize, dataEnd, 'l', 5).map((value, j) => value / (scale[j] ?? scale[0]));
+        if (values.length < 5) break;
+        payload.fixes.push({ lat: values[0], lon: values[1], altitude: values[2], speed: values[3] });
+      }
+    } else if (key === 'GPS9') {
+      // lat, lon, altitude, 2D and 3D speed, days since 2000, seconds since midnight (all int32), DOP, fix (uint16)
+      for (let i = 0; i < repeat; i++) {
+        const base = dataStart + i * structSize;
+        const values = readGpmfValues(view, base, dataEnd, 'l', 7).map((value, j) => value / (scale[j] ?? scale[0]));
+        if (values.length < 7) break;
+        if ((readGpmfValues(view, base + 30, dataEnd, 'S', 1)[0] ?? 0) < 2) continue;
+        payload.fixes.push({ lat: values[0], lon: values[1], altitude: values[2], speed: values[3] });
+        payload.utc ??= new Date(Date.UTC(2000, 0, 1) + (values[5] * 86400 + values[6]) * 1000);
+      }
+    }
+    offset = dataStart + Math.ceil((structSize * repeat) / 4) * 4;
+  }
+}
+
+/**
+ * GPS track from the GoPro telemetry, thinned to one point a second
+ */
+async function readTelemetryTrack(file: File, samples: TrackSample[]): Promise<{ track: GpsPoint[]; recordedAt: Date | null }> {
+  const track: GpsPoint[] = [];
+  let recordedAt: Date | null = null;
+  let lastFix: GpsPoint | null = null;
+  for (const sample of samples) {
+    const view = await readBytes(file, sample.offset, sample.size);
+    const payload: TelemetryPayload = { fixes: [], utc: null };
+    parseTelemetryPayload(view, 0, view.byteLength, payload);
+    const fixes = payload.fixes.filter(f => Math.abs(f.lat) <= 90 && Math.abs(f.lon) <= 180 && !(f.lat === 0 && f.lon === 0));
+    if (fixes.length === 0) continue;
+    // Recording began this long before the payload's first fix
+    if (!recordedAt && payload.utc) recordedAt = new Date(payload.utc.getTime() - sample.time * 1000);
+
+    fixes.forEach((f, i) => {
+      const time = sample.time + (sample.duration * i) / fixes.length;
+      lastFix = { time: Math.round(time * 1000) / 1000, lat: f.lat, lon: f.lon, altitude: f.altitude, speed: f.speed };
+      const last = track.at(-1);
+      if (!last || time - last.time >= TRACK_INTERVAL_S) track.push(lastFix);
+    });
+  }
+  // Keep where the route ends, not only the last whole second
+  if (lastFix && track.at(-1) !== lastFix) track.push(lastFix);
+  return { track, recordedAt };
+}
+
+function isStationary(track: GpsPoint[]): boolean {
+  const [first] = track;
+  return track.every(point => haversineMeters(first.lat, first.lon, point.lat, point.lon) < STATIONARY_RADIUS_M);
+}
+
+/**
+ * Recording time, position and GPS track embedded in an MP4 or MOV file
+ * Throws when the file is not an MP4/MOV container
+ */
+export async function readMp4Metadata(file: File): Promise<Mp4Metadata> {
+  const boxes = await topLevelBoxes(file);
+  const moovBox = boxes.find(box => box.type === 'moov');
+  if (!boxes.some(box => box.type === 'ftyp' || box.type === 'moov')) {
+    throw new Error(`${file.name} is not an MP4 or MOV file`);
+  }
+  if (!moovBox || moovBox.size > MAX_MOOV_BYTES) return { recordedAt: null, location: null, gpsTrack: [] };
+
+  const view = await readBytes(file, moovBox.offset, moovBox.size);
+  const [moov] = childBoxes(view, 0, view.byteLength);
+  if (!moov) return { recordedAt: null, location: null, gpsTrack: [] }; // cut off inside the movie header
+  const quickTime = readQuickTimeKeys(view, moov);
+  const userData = readUserData(view, moov);
+  // Odd or truncated telemetry must not cost the tagged location and time
+  let telemetry: Awaited<ReturnType<typeof readTelemetryTrack>> = { track: [], recordedAt: null };
+  try {
+    telemetry = await readTelemetryTrack(file, findTelemetrySamples(view, moov));
+  } catch (error) {
+    console.warn(`[metadata] Could not read the GPS telemetry of ${file.name}:`, error);
+  }
+  const [start] = telemetry.track;
+
+  // GPS time is exact; tagged dates carry a time zone; the movie header is often camera-local time
+  const recordedAt = telemetry.recordedAt ?? quickTime.recordedAt ?? userData.recordedAt ?? readMovieHeaderDate(view, moov);
+  const location = start ? { lat: start.lat, lon: start.lon } : quickTime.location ?? userData.location;
+  const gpsTrack = telemetry.track.length > 1 && !isStationary(telemetry.track) ? telemetry.track : [];
+  console.log(`[metadata] ${file.name}: ${location ? 'location' : 'no location'}, ${gpsTrack.length} track points, recorded ${recordedAt?.toISOString() ?? 'unknown'}`);
+  return { recordedAt, location, gpsTrack };
+}
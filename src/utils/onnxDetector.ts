@@ -0,0 +1,172 @@
+/**
+ * onnxDetector.ts - In-Browser YOLOv8 Detector
+ * Equivalent to the ultralytics YOLO call in Python detection.py
+ *
+ * Runs a YOLOv8 ONNX export (loaded from a local file) with the
+ * onnxruntime-web WASM backend, then applies the same letterbox,
+ * confidence filtering and NMS steps as the Python pipeline.
+ */
+
+import type { InferenceSession, Tensor } from 'onnxruntime-web/wasm';
+import { Detection, SampledFrame, TARGET_CLASSES } from '../types';
+import { iou } from './riskLogic';
+import type { Detector } from './detectors';
+
+// Thresholds matching the Python defaults
+const CONFIDENCE_THRESHOLD = 0.25;
+const NMS_IOU_THRESHOLD = 0.45;
+
+// YOLOv8 exports use a square 640px input unless the model says otherwise
+const DEFAULT_INPUT_SIZE = 640;
+
+// Where onnxruntime-web fetches its WASM binaries, configurable per deployment
+const ORT_WASM_PATH = (import.meta.env?.VITE_ORT_WASM_PATH as string) || 'https://cdn.jsdelivr.net/npm/onnxruntime-web@1.30.0/dist/';
+
+interface Letterbox {
+  input: Float32Array;
+  scale: number;
+  padX: number;
+  padY: number;
+}
+
+/**
+ * Resize a frame into a padded square tensor (CHW, RGB, 0-1)
+ */
+async function letterbox(frame: SampledFrame, size: number): Promise<Letterbox> {
+  const scale = Math.min(size / frame.width, size / frame.height);
+  const scaledWidth = Math.round(frame.width * scale);
+  const scaledHeight = Math.round(frame.height * scale);
+  const padX = Math.floor((size - scaledWidth) / 2);
+  const padY = Math.floor((size - scaledHeight) / 2);
+
+  const canvas = new OffscreenCanvas(size, size);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // Grey padding, as in the ultralytics letterbox
+  context.fillStyle = 'rgb(114, 114, 114)';
+  context.fillRect(0, 0, size, size);
+  const bitmap = await createImageBitmap(frame.pixels);
+  context.drawImage(bitmap, padX, padY, scaledWidth, scaledHeight);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, size, size);
+  const area = size * size;
+  const input = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    input[i] = data[i * 4] / 255;
+    input[area + i] = data[i * 4 + 1] / 255;
+    input[2 * area + i] = data[i * 4 + 2] / 255;
+  }
+
+  return { input, scale, padX, padY };
+}
+
+/**
+ * Decode raw YOLOv8 output into detections for the target classes
+ * Accepts both [1, 4 + classes, anchors] and [1, anchors, 4 + classes] layouts
+ */
+function decodeOutput(output: Tensor, box: Letterbox, frame: SampledFrame): Detection[] {
+  const data = output.data as Float32Array;
+  const [, dimA, dimB] = output.dims;
+  const channelsFirst = dimA < dimB;
+  const channels = channelsFirst ? dimA : dimB;
+  const anchors = channelsFirst ? dimB : dimA;
+  const value = (anchor: number, channel: number) =>
+    channelsFirst ? data[channel * anchors + anchor] : data[anchor * channels + channel];
+
+  const candidates: Detection[] = [];
+
+  for (let a = 0; a < anchors; a++) {
+    let bestClass = -1;
+    let bestScore = CONFIDENCE_THRESHOLD;
+    for (const id of Object.keys(TARGET_CLASSES)) {
+      const classId = Number(id);
+      if (4 + classId >= channels) continue;
+      const score = value(a, 4 + classId);
+      if (score > bestScore) {
+        bestScore = score;
+        bestClass = classId;
+      }
+    }
+    if (bestClass < 0) continue;
+
+    // Undo the letterbox to get coordinates in the original frame
+    const cx = (value(a, 0) - box.padX) / box.scale;
+    const cy = (value(a, 1) - box.padY) / box.scale;
+    const w = value(a, 2) / box.scale;
+    const h = value(a, 3) / box.scale;
+    const x1 = Math.max(0, cx - w / 2);
+    const y1 = Math.max(0, cy - h / 2);
+    const x2 = Math.min(frame.width, cx + w / 2);
+    const y2 = Math.min(frame.height, cy + h / 2);
+
+    candidates.push({
+      className: TARGET_CLASSES[bestClass],
+      confidence: bestScore,
+      bbox: [x1, y1, x2, y2],
+      classId: bestClass,
+      center: [(x1 + x2) / 2, (y1 + y2) / 2]
+    });
+  }
+
+  return nonMaxSuppression(candidates);
+}
+
+/**
+ * Per-class greedy non-maximum suppression
+ */
+function nonMaxSuppression(candidates: Detection[]): Detection[] {
+  const sorted = [...candidates].sort((a, b) => b.confidence - a.confidence);
+  const kept: Detection[] = [];
+
+  for (const candidate of sorted) {
+    const suppressed = kept.some(k =>
+      k.classId === candidate.classId && iou(k.bbox, candidate.bbox) > NMS_IOU_THRESHOLD
+    );
+    if (!suppressed) kept.push(candidate);
+  }
+
+  return kept;
+}
+
+/**
+ * Load a YOLOv8 ONNX model from a local file and wrap it as a Detector
+ */
+export async function createOnnxDetector(modelFile: File): Promise<Detector> {
+  const ort = await import('onnxruntime-web/wasm');
+  ort.env.wasm.wasmPaths = ORT_WASM_PATH;
+
+  let session: InferenceSession;
+  try {
+    session = await ort.InferenceSession.create(new Uint8Array(await modelFile.arrayBuffer()), {
+      executionProviders: ['wasm']
+    });
+  } catch (error) {
+    throw new Error(`Could not load ONNX model ${modelFile.name}: ${(error as Error).message}`);
+  }
+
+  const inputName = session.inputNames[0];
+  const outputName = session.outputNames[0];
+  const inputMetadata = session.inputMetadata[0];
+  const declaredSize = inputMetadata?.isTensor ? inputMetadata.shape[2] : undefined;
+  const inputSize = typeof declaredSize === 'number' ? declaredSize : DEFAULT_INPUT_SIZE;
+
+  console.log(`[detection] Loaded ONNX model ${modelFile.name} (${inputSize}px input)`);
+
+  return {
+    kind: 'onnx',
+    label: `YOLOv8 ONNX · ${modelFile.name}`,
+    detect: async (frame) => {
+      const box = await letterbox(frame, inputSize);
+      const tensor = new ort.Tensor('float32', box.input, [1, 3, inputSize, inputSize]);
+      const results = await session.run({ [inputName]: tensor });
+      return decodeOutput(results[outputName], box, frame);
+    },
+    dispose: () => {
+      session.release().catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * random.ts - Seedable Random Numbers
+ *
+ * The simulated pipeline draws every random number from an Rng so a run
+ * can be replayed exactly from its seed (numpy.random.seed equivalent).
+ */
+
+export type Rng = () => number;
+
+// Files up to this size are hashed in full; larger ones are sampled
+const FULL_HASH_LIMIT = 64 * 1024 * 1024;
+const SAMPLE_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Create a deterministic generator (mulberry32) returning floats in [0, 1)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive an independent seed for a sub-stream (e.g. one frame) so results
+ * do not depend on the order frames are processed in
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Parse a user-entered seed, returning null when it is blank or invalid
+ */
+export function parseSeed(value: string): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= 0xffffffff ? seed : null;
+}
+
+/**
+ * Derive a 32-bit seed from the file's content hash (SHA-256).
+ * Large files are sampled (size + head + middle + tail) to keep this fast.
+ */
+export async function seedFromFile(file: File): Promise<number> {
+  let content: ArrayBuffer;
+
+  if (file.size <= FULL_HASH_LIMIT) {
+    content = await file.arrayBuffer();
+  } else {
+    const middle = Math.floor(file.size / 2);
+    content = await new Blob([
+      file.size.toString(),
+      file.slice(0, SAMPLE_CHUNK_SIZE),
+      file.slice(middle, middle + SAMPLE_CHUNK_SIZE),
+      file.slice(file.size - SAMPLE_CHUNK_SIZE)
+    ]).arrayBuffer();
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', content);
+  return new DataView(digest).getUint32(0);
+}
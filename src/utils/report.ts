@@ -0,0 +1,415 @@
+/**
+ * report.ts - Site Risk Report
+ *
+ * Builds a print-ready report for one or more analyses, entirely in the
+ * browser: a static map of the site stitched from map tiles, the risk
+ * gauge, violation and incident tables, the timeline chart, incident
+ * thumbnails from the original clip and the method parameters. The same
+ * sections feed the printable HTML and the PDF in reportPdf.ts.
+ */
+
+import { FrameAnalysis, Incident, RiskAnalysis, RiskModelConfig, ZoneKind } from '../types';
+import { describeAggregation } from './aggregation';
+import { openFrameSource } from './frameSource';
+import { INCIDENT_LABELS } from './incidents';
+import { ASSESSMENT_TEXT, levelThresholds } from './riskLogic';
+import { DEFAULT_RISK_MODEL } from './riskProfiles';
+import { ZONE_LABELS } from './zones';
+
+// Light basemap so the snapshot prints well; CARTO tiles allow CORS reads
+const TILE_URL = 'https://a.basemaps.cartocdn.com/light_all/{z}/{x}/{y}.png';
+const TILE_SIZE = 256;
+const MAP_ZOOM = 17;
+export const MAP_WIDTH = 640;
+export const MAP_HEIGHT = 300;
+
+const MAX_THUMBNAILS = 4;
+const THUMBNAIL_WIDTH = 320;
+
+export const LEVEL_COLORS = {
+  LOW: '#22c55e',
+  MEDIUM: '#f97316',
+  HIGH: '#ef4444',
+  CRITICAL: '#dc2626',
+};
+
+export interface IncidentThumbnail {
+  incident: Incident;
+  image: string; // JPEG data URL with the involved road users outlined
+  aspectRatio: number; // height / width
+}
+
+// Everything one analysis contributes to a report
+export interface ReportSection {
+  analysis: RiskAnalysis;
+  mapImage: string | null; // PNG data URL, null when tiles could not be loaded
+  thumbnails: IncidentThumbnail[];
+}
+
+/**
+ * Render a map snapshot centred on the site by stitching basemap tiles
+ * Returns null when offline or when the tiles cannot be read back
+ */
+export async function renderStaticMap(lat: number, lon: number): Promise<string | null> {
+  const worldSize = TILE_SIZE * 2 ** MAP_ZOOM;
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  const centerX = ((lon + 180) / 360) * worldSize;
+  const centerY = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize;
+  const left = centerX - MAP_WIDTH / 2;
+  const top = centerY - MAP_HEIGHT / 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = MAP_WIDTH;
+  canvas.height = MAP_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.fillStyle = '#e5e7eb';
+  context.fillRect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+
+  const tiles: Promise<boolean>[] = [];
+  for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + MAP_WIDTH) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + MAP_HEIGHT) / TILE_SIZE); ty++) {
+      const url = TILE_URL.replace('{z}', String(MAP_ZOOM)).replace('{x}', String(tx)).replace('{y}', String(ty));
+      tiles.push(new Promise(resolve => {
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        image.onload = () => {
+          context.drawImage(image, tx * TILE_SIZE - left, ty * TILE_SIZE - top);
+          resolve(true);
+        };
+        image.onerror = () => resolve(false);
+        image.src = url;
+      }));
+    }
+  }
+  const loaded = await Promise.all(tiles);
+  if (!loaded.some(Boolean)) {
+    console.warn('[report] Map tiles unavailable, leaving the snapshot out');
+    return null;
+  }
+
+  // Site marker
+  context.beginPath();
+  context.arc(MAP_WIDTH / 2, MAP_HEIGHT / 2, 9, 0, Math.PI * 2);
+  context.fillStyle = 'rgba(239, 68, 68, 0.85)';
+  context.fill();
+  context.lineWidth = 3;
+  context.strokeStyle = '#ffffff';
+  context.stroke();
+
+  context.font = '10px sans-serif';
+  context.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  context.fillRect(MAP_WIDTH - 170, MAP_HEIGHT - 16, 170, 16);
+  context.fillStyle = '#374151';
+  context.fillText('© OpenStreetMap contributors © CARTO', MAP_WIDTH - 166, MAP_HEIGHT - 5);
+
+  try {
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    console.warn('[report] Map snapshot could not be exported:', error);
+    return null;
+  }
+}
+
+/**
+ * Stills of the highest-scoring incidents, with their road users outlined
+ */
+export async function captureIncidentThumbnails(file: File, analysis: RiskAnalysis): Promise<IncidentThumbnail[]> {
+  const incidents = [...(analysis.incidents ?? [])]
+    .sort((a, b) => b.peakScore - a.peakScore)
+    .slice(0, MAX_THUMBNAILS);
+  if (incidents.length === 0) return [];
+
+  const source = await openFrameSource(file);
+  try {
+    const thumbnails: IncidentThumbnail[] = [];
+    for (const incident of incidents) {
+      const frame = await source.readFrame(Math.min(source.metadata.totalFrames - 1, incident.peakFrameIndex));
+      const scale = THUMBNAIL_WIDTH / frame.width;
+
+      const full = document.createElement('canvas');
+      full.width = frame.width;
+      full.height = frame.height;
+      full.getContext('2d')?.putImageData(frame.pixels, 0, 0);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.round(frame.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) continue;
+      context.drawImage(full, 0, 0, canvas.width, canvas.height);
+
+      const analysed = analysis.frames?.find(f => f.frameIndex === incident.peakFrameIndex);
+      context.lineWidth = 2;
+      context.strokeStyle = LEVEL_COLORS.HIGH;
+      analysed?.detections
+        .filter(d => d.trackId !== undefined && incident.trackIds.includes(d.trackId))
+        .forEach(({ bbox: [x1, y1, x2, y2] }) => {
+          context.strokeRect(x1 * scale, y1 * scale, (x2 - x1) * scale, (y2 - y1) * scale);
+        });
+
+      thumbnails.push({ incident, image: canvas.toDataURL('image/jpeg', 0.8), aspectRatio: canvas.height / canvas.width });
+    }
+    return thumbnails;
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * Gather the map and thumbnails for each analysis
+ * Missing videos or map tiles only leave those parts out
+ */
+export async function prepareReport(analyses: RiskAnalysis[], videoFiles: Map<string, File>): Promise<ReportSection[]> {
+  const sections: ReportSection[] = [];
+  for (const analysis of analyses) {
+    const file = videoFiles.get(analysis.id);
+    const [mapImage, thumbnails] = await Promise.all([
+      renderStaticMap(analysis.lat, analysis.lon),
+      file
+        ? captureIncidentThumbnails(file, analysis).catch(error => {
+            console.warn(`[report] No thumbnails for ${analysis.videoName}:`, error);
+            return [];
+          })
+        : Promise.resolve([]),
+    ]);
+    sections.push({ analysis, mapImage, thumbnails });
+  }
+  return sections;
+}
+
+export function formatTimestamp(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * Half-circle gauge with the level bands and a needle at the score
+ */
+export function gaugeSvg(score: number, riskModel: RiskModelConfig = DEFAULT_RISK_MODEL): string {
+  const cx = 100;
+  const cy = 100;
+  const radius = 80;
+  const point = (value: number, r = radius) => {
+    const angle = Math.PI * (1 - value / 100);
+    return `${(cx + r * Math.cos(angle)).toFixed(2)},${(cy - r * Math.sin(angle)).toFixed(2)}`;
+  };
+  const { medium, high, critical } = levelThresholds(riskModel.aggregation.strategy, riskModel);
+  const bands: [number, number, string][] = [
+    [0, medium, LEVEL_COLORS.LOW],
+    [medium, high, LEVEL_COLORS.MEDIUM],
+    [high, critical, LEVEL_COLORS.HIGH],
+    [critical, 100, LEVEL_COLORS.CRITICAL],
+  ];
+  const arcs = bands
+    .filter(([from, to]) => to > from)
+    .map(([from, to, color]) =>
+      `<path d="M${point(from)} A${radius},${radius} 0 0 1 ${point(to)}" fill="none" stroke="${color}" stroke-width="18"/>`
+    )
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 120" width="200" height="120">${arcs}`
+    + `<polyline points="${cx},${cy} ${point(Math.min(100, Math.max(0, score)), radius - 12)}" stroke="#111827" stroke-width="4" stroke-linecap="round"/>`
+    + `<circle cx="${cx}" cy="${cy}" r="6" fill="#111827"/>`
+    + `<text x="${cx}" y="${cy + 18}" text-anchor="middle" font-family="sans-serif" font-size="16" font-weight="bold" fill="#111827">${score}/100</text>`
+    + '</svg>';
+}
+
+/**
+ * Score and road user counts over video time, with level bands and incident spans
+ */
+export function timelineSvg(frames: FrameAnalysis[], riskModel: RiskModelConfig = DEFAULT_RISK_MODEL, incidents: Incident[] = []): string {
+  const width = 640;
+  const height = 200;
+  const pad = { left: 32, right: 12, top: 10, bottom: 24 };
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+
+  const start = frames[0]?.timestamp ?? 0;
+  const span = Math.max((frames[frames.length - 1]?.timestamp ?? 0) - start, 1e-3);
+  const maxCount = Math.max(1, ...frames.map(f => Math.max(f.vehicleCount, f.personCount)));
+  const x = (t: number) => pad.left + ((t - start) / span) * plotW;
+  const yScore = (score: number) => pad.top + plotH - (score / 100) * plotH;
+  const yCount = (count: number) => pad.top + plotH - (count / maxCount) * plotH;
+  const polyline = (y: (f: FrameAnalysis) => number, color: string, strokeWidth: number) =>
+    `<polyline points="${frames.map(f => `${x(f.timestamp).toFixed(1)},${y(f).toFixed(1)}`).join(' ')}" fill="none" stroke="${color}" stroke-width="${strokeWidth}"/>`;
+
+  const { medium, high, critical } = riskModel.thresholds;
+  const bands = ([[0, medium, 'LOW'], [medium, high, 'MEDIUM'], [high, critical, 'HIGH'], [critical, 100, 'CRITICAL']] as const)
+    .map(([from, to, level]) =>
+      `<rect x="${pad.left}" y="${yScore(to)}" width="${plotW}" height="${Math.max(0, yScore(from) - yScore(to))}" fill="${LEVEL_COLORS[level]}" opacity="0.08"/>`
+    )
+    .join('');
+  const spans = incidents
+    .map(i => `<rect x="${x(i.startTime)}" y="${pad.top}" width="${Math.max(2, x(i.endTime) - x(i.startTime))}" height="${plotH}" fill="#ef4444" opacity="0.15"/>`)
+    .join('');
+  const yTicks = [0, 50, 100]
+    .map(v => `<text x="${pad.left - 4}" y="${yScore(v) + 3}" text-anchor="end" font-size="9" fill="#6b7280">${v}</text>`)
+    .join('');
+  const xTicks = [0, 0.5, 1]
+    .map(f => `<text x="${pad.left + f * plotW}" y="${height - 8}" text-anchor="middle" font-size="9" fill="#6b7280">${formatTimestamp(start + f * span)}</text>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" font-family="sans-serif">`
+    + bands + spans
+    + `<rect x="${pad.left}" y="${pad.top}" width="${plotW}" height="${plotH}" fill="none" stroke="#d1d5db"/>`
+    + polyline(f => yCount(f.vehicleCount), '#06b6d4', 1)
+    + polyline(f => yCount(f.personCount), '#a855f7', 1)
+    + polyline(f => yScore(f.score), '#dc2626', 2)
+    + yTicks + xTicks
+    + '</svg>';
+}
+
+/**
+ * Method and parameter rows, so the result can be reproduced
+ */
+export function methodRows(analysis: RiskAnalysis): [string, string][] {
+  const rows: [string, string][] = [];
+  if (analysis.detector) rows.push(['Detector', analysis.detector]);
+  if (analysis.seed !== undefined) rows.push(['Seed', String(analysis.seed)]);
+  if (analysis.video) {
+    const { width, height, frameRate, duration } = analysis.video;
+    rows.push(['Video', `${width}x${height}, ${frameRate} fps, ${duration.toFixed(1)} s`]);
+  }
+  rows.push(['Frames analysed', `${analysis.frameStats.processedFrames} of ${analysis.frameStats.totalFrames}`]);
+  const model = analysis.riskModel;
+  if (model) {
+    const { weights, thresholds } = model;
+    rows.push(['Risk model', model.name]);
+    rows.push(['Weights', `vehicle ${weights.vehicle}, person ${weights.person}, conflict ${weights.conflict}, proximity ${weights.proximity}`]);
+    rows.push(['Proximity radius', `${Math.round(model.proximityRadius * 100)}% of frame width`]);
+    rows.push(['Thresholds', `medium ${thresholds.medium}, high ${thresholds.high}, critical ${thresholds.critical}`]);
+  }
+  if (analysis.aggregation && model) {
+    rows.push(['Aggregation', describeAggregation(analysis.aggregation.strategy, model.aggregation)]);
+  }
+  const zoneCounts = new Map<ZoneKind, number>();
+  analysis.zones?.forEach(zone => zoneCounts.set(zone.kind, (zoneCounts.get(zone.kind) ?? 0) + 1));
+  rows.push(['Zones', zoneCounts.size > 0
+    ? [...zoneCounts].map(([kind, count]) => `${count} ${ZONE_LABELS[kind]}`).join(', ')
+    : 'None (whole frame)']);
+  return rows;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+function tableHtml(header: string[], rows: (string | number)[][]): string {
+  return `<table><thead><tr>${header.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+    + `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+function sectionHtml({ analysis, mapImage, thumbnails }: ReportSection): string {
+  const assessment = ASSESSMENT_TEXT[analysis.riskLevel];
+  const stats = analysis.frameStats;
+  const parts = [
+    `<h2>${escapeHtml(analysis.locationName)}</h2>`,
+    `<p class="meta">${analysis.lat.toFixed(6)}, ${analysis.lon.toFixed(6)} &middot; ${escapeHtml(analysis.videoName)} &middot; analysed ${escapeHtml(analysis.timestamp.toLocaleString())}</p>`,
+    mapImage ? `<img class="map" src="${mapImage}" alt="Map of ${escapeHtml(analysis.locationName)}">` : '',
+    '<div class="summary">',
+    `<div class="gauge">${gaugeSvg(analysis.riskScore, analysis.riskModel)}<p style="color:${LEVEL_COLORS[analysis.riskLevel]}"><strong>${analysis.riskLevel} RISK</strong></p></div>`,
+    `<div><h3>${escapeHtml(assessment.title)}</h3><p>${escapeHtml(assessment.text)}</p>`,
+    tableHtml(['Frames', 'Avg vehicles', 'Avg persons', 'Peak score', 'Vehicles tracked', 'Pedestrians tracked'], [[
+      stats.processedFrames, stats.avgVehicles, stats.avgPersons, stats.maxScore, stats.uniqueVehicles ?? '-', stats.uniquePersons ?? '-',
+    ]]),
+    '</div></div>',
+    '<h3>Violations</h3>',
+    analysis.violations.length > 0
+      ? tableHtml(['Type', 'Count', 'Severity'], analysis.violations.map(v => [v.type, v.count, v.severity]))
+      : '<p>No violations detected.</p>',
+  ];
+
+  if (analysis.frames && analysis.frames.length > 1) {
+    parts.push(
+      '<h3>Risk Timeline</h3>',
+      `<div class="chart">${timelineSvg(analysis.frames, analysis.riskModel, analysis.incidents)}</div>`,
+      '<p class="legend"><span style="color:#dc2626">&#9632; Score</span> <span style="color:#06b6d4">&#9632; Vehicles</span> <span style="color:#a855f7">&#9632; Persons</span> <span style="color:#ef4444;opacity:.5">&#9632; Incidents</span></p>'
+    );
+  }
+
+  if (analysis.incidents && analysis.incidents.length > 0) {
+    parts.push(
+      '<h3>Incidents</h3>',
+      tableHtml(['Time', 'Type', 'Road users', 'Peak score', 'Severity'], analysis.incidents.map(i => [
+        i.endTime > i.startTime ? `${formatTimestamp(i.startTime)}-${formatTimestamp(i.endTime)}` : formatTimestamp(i.startTime),
+        INCIDENT_LABELS[i.type],
+        i.trackIds.map(id => `#${id}`).join(', '),
+        i.peakScore,
+        i.severity,
+      ]))
+    );
+  }
+  if (thumbnails.length > 0) {
+    parts.push(
+      '<div class="thumbs">',
+      ...thumbnails.map(({ incident, image }) =>
+        `<figure><img src="${image}" alt=""><figcaption>${formatTimestamp(incident.startTime)} &middot; ${escapeHtml(INCIDENT_LABELS[incident.type])}</figcaption></figure>`
+      ),
+      '</div>'
+    );
+  }
+
+  parts.push('<h3>Method</h3>', tableHtml(['Parameter', 'Value'], methodRows(analysis)));
+  return `<section>${parts.join('')}</section>`;
+}
+
+const REPORT_CSS = `
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 0 0 2px; }
+  h3 { font-size: 13px; margin: 16px 0 6px; }
+  .meta, .legend, figcaption { color: #6b7280; font-size: 11px; }
+  section { page-break-after: always; }
+  section:last-child { page-break-after: auto; }
+  .map { width: 100%; max-width: 640px; border: 1px solid #d1d5db; margin: 8px 0; }
+  .summary { display: flex; gap: 16px; align-items: flex-start; }
+  .gauge { text-align: center; flex-shrink: 0; }
+  .gauge p { margin: 0; }
+  .chart svg { width: 100%; height: auto; max-width: 640px; }
+  table { border-collapse: collapse; width: 100%; margin: 4px 0; }
+  th, td { border: 1px solid #e5e7eb; padding: 4px 6px; text-align: left; }
+  th { background: #f3f4f6; }
+  .thumbs { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 8px; }
+  figure { margin: 0; width: 48%; }
+  figure img { width: 100%; border: 1px solid #d1d5db; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * Standalone HTML document for the report
+ */
+export function buildReportHtml(sections: ReportSection[]): string {
+  const title = sections.length === 1 ? `Site Risk Report - ${sections[0].analysis.locationName}` : `Site Risk Report - ${sections.length} sites`;
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${REPORT_CSS}</style></head><body>`
+    + `<h1>${escapeHtml(title)}</h1><p class="meta">Generated ${escapeHtml(new Date().toLocaleString())} by SafeSight</p>`
+    + sections.map(sectionHtml).join('')
+    + '</body></html>';
+}
+
+/**
+ * Open the window the report will print from, showing a placeholder
+ * Call it directly in the click handler: browsers only allow pop-ups
+ * while the click's user activation lasts, not after the report is built
+ */
+export function openReportWindow(): Window {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error('The report window was blocked; allow pop-ups for this site');
+  }
+  win.document.write('<!DOCTYPE html><html><head><title>Preparing report…</title></head>'
+    + '<body style="font-family: sans-serif; color: #374151; padding: 24px">Preparing report…</body></html>');
+  return win;
+}
+
+/**
+ * Show the report in a window from openReportWindow() and bring up the print dialog
+ */
+export function printReport(win: Window, html: string): void {
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  // Embedded images are data URLs, so the document may already be complete
+  if (win.document.readyState === 'complete') win.print();
+  else win.addEventListener('load', () => win.print(), { once: true });
+  win.focus();
+}
@@ -0,0 +1,204 @@
+/**
+ * reportPdf.ts - Site Risk Report as PDF
+ *
+ * Lays out the report sections from report.ts on A4 pages with jsPDF.
+ * Charts are the same SVGs as the HTML report, rasterised through a
+ * canvas; tables and text stay as real PDF text.
+ */
+
+import type { jsPDF } from 'jspdf';
+import { INCIDENT_LABELS } from './incidents';
+import { ASSESSMENT_TEXT } from './riskLogic';
+import {
+  LEVEL_COLORS, MAP_HEIGHT, MAP_WIDTH, ReportSection,
+  formatTimestamp, gaugeSvg, methodRows, timelineSvg,
+} from './report';
+
+const PAGE_WIDTH = 210; // mm, A4 portrait
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_HEIGHT = 5;
+
+/**
+ * Rasterise an SVG string to a PNG data URL at twice its size
+ */
+async function svgToPng(svg: string, width: number, height: number): Promise<string> {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('Could not render report chart'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = width * 2;
+  canvas.height = height * 2;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+// Writes top to bottom, starting a new page when the next block does not fit
+function createCursor(doc: jsPDF) {
+  let y = MARGIN;
+
+  const ensure = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  return {
+    get y() { return y; },
+    newPage() {
+      doc.addPage();
+      y = MARGIN;
+    },
+    heading(text: string, size = 12, color: [number, number, number] = [17, 24, 39]) {
+      ensure(size * 0.6 + 4);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(size);
+      doc.setTextColor(...color);
+      y += size * 0.45;
+      doc.text(text, MARGIN, y);
+      y += 3;
+    },
+    paragraph(text: string, size = 9, color: [number, number, number] = [55, 65, 81]) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(size);
+      doc.setTextColor(...color);
+      const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+      lines.forEach(line => {
+        ensure(LINE_HEIGHT);
+        y += LINE_HEIGHT - 1;
+        doc.text(line, MARGIN, y);
+      });
+      y += 2;
+    },
+    image(dataUrl: string, format: 'PNG' | 'JPEG', width: number, height: number, x = MARGIN) {
+      ensure(height);
+      doc.addImage(dataUrl, format, x, y, width, height);
+      y += height + 3;
+    },
+    // Columns share the width by the given fractions
+    table(header: string[], rows: (string | number)[][], widths?: number[]) {
+      const fractions = widths ?? header.map(() => 1 / header.length);
+      const columnX = fractions.map((_, i) => MARGIN + fractions.slice(0, i).reduce((sum, f) => sum + f, 0) * CONTENT_WIDTH);
+      const drawRow = (cells: (string | number)[], bold: boolean) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.setFontSize(8);
+        const wrapped = cells.map((cell, i) => doc.splitTextToSize(String(cell), fractions[i] * CONTENT_WIDTH - 2) as string[]);
+        const height = Math.max(...wrapped.map(lines => lines.length)) * 4 + 2;
+        ensure(height);
+        if (bold) {
+          doc.setFillColor(243, 244, 246);
+          doc.rect(MARGIN, y, CONTENT_WIDTH, height, 'F');
+        }
+        doc.setTextColor(17, 24, 39);
+        wrapped.forEach((lines, i) => doc.text(lines, columnX[i] + 1, y + 4));
+        doc.setDrawColor(229, 231, 235);
+        doc.line(MARGIN, y + height, MARGIN + CONTENT_WIDTH, y + height);
+        y += height;
+      };
+      drawRow(header, true);
+      rows.forEach(row => drawRow(row, false));
+      y += 3;
+    },
+  };
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Build the report as a PDF file
+ */
+export async function buildReportPdf(sections: ReportSection[]): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const cursor = createCursor(doc);
+
+  const title = sections.length === 1 ? `Site Risk Report - ${sections[0].analysis.locationName}` : `Site Risk Report - ${sections.length} sites`;
+  doc.setProperties({ title, creator: 'SafeSight' });
+  cursor.heading(title, 16);
+  cursor.paragraph(`Generated ${new Date().toLocaleString()} by SafeSight`, 8, [107, 114, 128]);
+
+  for (const [index, { analysis, mapImage, thumbnails }] of sections.entries()) {
+    if (index > 0) cursor.newPage();
+
+    cursor.heading(analysis.locationName, 14);
+    cursor.paragraph(
+      `${analysis.lat.toFixed(6)}, ${analysis.lon.toFixed(6)} - ${analysis.videoName} - analysed ${analysis.timestamp.toLocaleString()}`,
+      8,
+      [107, 114, 128]
+    );
+    if (mapImage) {
+      cursor.image(mapImage, 'PNG', CONTENT_WIDTH, (CONTENT_WIDTH * MAP_HEIGHT) / MAP_WIDTH);
+    }
+
+    const gauge = await svgToPng(gaugeSvg(analysis.riskScore, analysis.riskModel), 200, 120);
+    cursor.image(gauge, 'PNG', 50, 30, MARGIN + (CONTENT_WIDTH - 50) / 2);
+    const assessment = ASSESSMENT_TEXT[analysis.riskLevel];
+    cursor.heading(`${analysis.riskLevel} RISK - ${assessment.title}`, 11, hexToRgb(LEVEL_COLORS[analysis.riskLevel]));
+    cursor.paragraph(assessment.text);
+
+    const stats = analysis.frameStats;
+    cursor.table(
+      ['Frames', 'Avg vehicles', 'Avg persons', 'Peak score', 'Vehicles tracked', 'Pedestrians tracked'],
+      [[stats.processedFrames, stats.avgVehicles, stats.avgPersons, stats.maxScore, stats.uniqueVehicles ?? '-', stats.uniquePersons ?? '-']]
+    );
+
+    cursor.heading('Violations', 11);
+    if (analysis.violations.length > 0) {
+      cursor.table(['Type', 'Count', 'Severity'], analysis.violations.map(v => [v.type, v.count, v.severity]), [0.6, 0.2, 0.2]);
+    } else {
+      cursor.paragraph('No violations detected.');
+    }
+
+    if (analysis.frames && analysis.frames.length > 1) {
+      cursor.heading('Risk Timeline', 11);
+      const chart = await svgToPng(timelineSvg(analysis.frames, analysis.riskModel, analysis.incidents), 640, 200);
+      cursor.image(chart, 'PNG', CONTENT_WIDTH, (CONTENT_WIDTH * 200) / 640);
+      cursor.paragraph('Red: score - Cyan: vehicles - Purple: persons - Shaded: incidents', 7, [107, 114, 128]);
+    }
+
+    if (analysis.incidents && analysis.incidents.length > 0) {
+      cursor.heading('Incidents', 11);
+      cursor.table(
+        ['Time', 'Type', 'Road users', 'Peak score', 'Severity'],
+        analysis.incidents.map(i => [
+          i.endTime > i.startTime ? `${formatTimestamp(i.startTime)}-${formatTimestamp(i.endTime)}` : formatTimestamp(i.startTime),
+          INCIDENT_LABELS[i.type],
+          i.trackIds.map(id => `#${id}`).join(', '),
+          i.peakScore,
+          i.severity,
+        ]),
+        [0.2, 0.3, 0.25, 0.12, 0.13]
+      );
+    }
+
+    // Thumbnails two to a row
+    const thumbWidth = (CONTENT_WIDTH - 4) / 2;
+    for (let i = 0; i < thumbnails.length; i += 2) {
+      const row = thumbnails.slice(i, i + 2);
+      const thumbHeight = thumbWidth * Math.max(...row.map(t => t.aspectRatio));
+      row.forEach(({ image }, column) => {
+        if (column === 0) cursor.image(image, 'JPEG', thumbWidth, thumbHeight);
+        else doc.addImage(image, 'JPEG', MARGIN + thumbWidth + 4, cursor.y - thumbHeight - 3, thumbWidth, thumbHeight);
+      });
+      const caption = row.map(({ incident }) => `${formatTimestamp(incident.startTime)} ${INCIDENT_LABELS[incident.type]}`).join('        ');
+      cursor.paragraph(caption, 7, [107, 114, 128]);
+    }
+
+    cursor.heading('Method', 11);
+    cursor.table(['Parameter', 'Value'], methodRows(analysis), [0.3, 0.7]);
+  }
+
+  return doc.output('blob');
+}
@@ -0,0 +1,78 @@
+/**
+ * requestScheduler.ts - Debounced, Throttled Requests
+ *
+ * Spaces requests to a rate-limited service at least `minIntervalMs`
+ * apart. Requests on a named channel are also debounced: a newer one
+ * cancels the one waiting or in flight, so typing in a search box sends
+ * one request for the final query instead of one per keystroke.
+ */
+
+export interface ScheduleOptions {
+  /** Requests on the same channel supersede each other */
+  channel?: string;
+  /** Quiet time on the channel before the request is sent */
+  debounceMs?: number;
+}
+
+export interface RequestScheduler {
+  run<T>(task: (signal: AbortSignal) => Promise<T>, options?: ScheduleOptions): Promise<T>;
+  /** Cancel whatever is waiting or running on a channel */
+  cancel(channel: string): void;
+}
+
+const abortError = () => new DOMException('Request superseded', 'AbortError');
+
+export function createRequestScheduler(minIntervalMs: number): RequestScheduler {
+  const channels = new Map<string, AbortController>();
+  let lastStart = 0;
+  let turns: Promise<void> = Promise.resolve();
+
+  // Wait for this request's slot; cancelled requests give theirs up,
+  // including one cancelled while waiting, so the next goes at once
+  const takeTurn = (signal: AbortSignal) => {
+    const turn = turns.then(async () => {
+      const wait = lastStart + minIntervalMs - Date.now();
+      if (wait > 0 && !signal.aborted) {
+        await new Promise<void>(resolve => {
+          const done = () => { clearTimeout(timer); resolve(); };
+          const timer = setTimeout(() => { signal.removeEventListener('abort', done); resolve(); }, wait);
+          signal.addEventListener('abort', done, { once: true });
+        });
+      }
+      if (!signal.aborted) lastStart = Date.now();
+    });
+    turns = turn;
+    return turn;
+  };
+
+  const cancel = (channel: string) => {
+    channels.get(channel)?.abort(abortError());
+    channels.delete(channel);
+  };
+
+  return {
+    async run(task, { channel, debounceMs = 0 } = {}) {
+      const controller = new AbortController();
+      if (channel) {
+        cancel(channel);
+        channels.set(channel, controller);
+      }
+      const { signal } = controller;
+
+      try {
+        if (debounceMs > 0) {
+          await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(resolve, debounceMs);
+            signal.addEventListener('abort', () => { clearTimeout(timer); reject(abortError()); }, { once: true });
+          });
+        }
+        await takeTurn(signal);
+        signal.throwIfAborted();
+        return await task(signal);
+      } finally {
+        if (channel && channels.get(channel) === controller) channels.delete(channel);
+      }
+    },
+    cancel,
+  };
+}
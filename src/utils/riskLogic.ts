@@ -3,7 +3,12 @@
  * Risk scoring logic for traffic analysis
  */
 
-import { Detection, VEHICLE_CLASSES, FrameAnalysis } from '../types';
+import { Detection, VEHICLE_CLASSES, FrameAnalysis, ConflictPair, RiskModelConfig, RiskLevel, AggregationStrategy, AggregationSummary, Zone, SignalViolation } from '../types';
+import { measurePair, isConflict } from './surrogateSafety';
+import { DEFAULT_RISK_MODEL } from './riskProfiles';
+import { TIME_SHARE_THRESHOLDS, computeAggregates } from './aggregation';
+import { zoneKindsAt } from './zones';
+import { governingSignalState } from './signals';
 
 /**
  * Calculate Intersection over Union (IoU) between two bounding boxes
@@ -43,47 +48,98 @@ export function distance(p1: [number, number], p2: [number, number]): number {
 
 /**
  * Compute a risk score (0-100) for a single frame
- * Ported from Python compute_frame_risk()
+ * Ported from Python compute_frame_risk(); weights come from the risk model
  */
 export function computeFrameRisk(
   detections: Detection[],
   frameWidth: number,
-  frameHeight: number
+  frameHeight: number,
+  model: RiskModelConfig = DEFAULT_RISK_MODEL,
+  zones: Zone[] = []
 ): FrameAnalysis {
+  const { weights } = model;
   let score = 0;
   let overlaps = 0;
   let proximityRisks = 0;
+  const conflictPairs: ConflictPair[] = [];
+  const overlapPairs: [number, number][] = [];
+  const proximityPairs: [number, number][] = [];
+  const indexOf = new Map(detections.map((d, i) => [d, i]));
 
   const vehicles = detections.filter(d => VEHICLE_CLASSES.includes(d.className));
   const persons = detections.filter(d => d.className === 'person');
 
   // 1) Base score: how crowded is the frame
-  score += 3 * vehicles.length;
-  score += 5 * persons.length;
+  score += weights.vehicle * vehicles.length;
+  score += weights.person * persons.length;
 
-  // 2) Vehicle-vehicle overlap (potential collision risk)
+  // 2) Vehicle-vehicle conflicts (potential collision risk)
+  // Pairs with trajectories are judged by TTC/PET; static box overlap is
+  // only used until both vehicles have been tracked across two frames
   for (let i = 0; i < vehicles.length; i++) {
     for (let j = i + 1; j < vehicles.length; j++) {
-      if (iou(vehicles[i].bbox, vehicles[j].bbox) > 0.1) {
-        score += 20;
+      const a = vehicles[i];
+      const b = vehicles[j];
+      if (a.velocity && b.velocity) {
+        const measures = measurePair(a, b);
+        if (isConflict(measures)) {
+          score += weights.conflict;
+          conflictPairs.push({ trackIds: [a.trackId ?? -1, b.trackId ?? -1], kind: 'vehicle-vehicle', ...measures });
+        }
+      } else if (iou(a.bbox, b.bbox) > 0.1) {
+        score += weights.conflict;
         overlaps++;
+        overlapPairs.push([indexOf.get(a)!, indexOf.get(b)!]);
       }
     }
   }
 
-  // 3) Vehicle-person proximity in lower half of frame (danger zone)
+  // 2b) Vehicle-person conflicts from trajectories
   for (const v of vehicles) {
     for (const p of persons) {
+      const measures = measurePair(v, p);
+      if (isConflict(measures)) {
+        score += weights.conflict;
+        conflictPairs.push({ trackIds: [v.trackId ?? -1, p.trackId ?? -1], kind: 'vehicle-person', ...measures });
+      }
+    }
+  }
+
+  // 3) Vehicle-person proximity in the danger zone
+  // With user-drawn zones the pedestrian must be on a crosswalk or the
+  // carriageway and the vehicle in the roadway; without zones the Python
+  // rule applies (pedestrian in lower half of frame, closer to camera).
+  // Stop lines alone do not describe where pedestrians belong
+  const useZones = zones.some(z => z.kind !== 'stop_line');
+  const vehicleZones = vehicles.map(v => zoneKindsAt(v, zones, frameWidth, frameHeight));
+  const outsideCrosswalk: number[] = [];
+
+  for (const p of persons) {
+    const personZones = zoneKindsAt(p, zones, frameWidth, frameHeight);
+    const [cx_p, cy_p] = getCenter(p.bbox);
+
+    const exposed = useZones
+      ? personZones.has('crosswalk') || personZones.has('carriageway')
+      : cy_p > frameHeight * 0.5;
+
+    if (useZones && personZones.has('carriageway') && !personZones.has('crosswalk') && p.trackId !== undefined) {
+      outsideCrosswalk.push(p.trackId);
+    }
+
+    if (!exposed) continue;
+
+    vehicles.forEach((v, i) => {
+      if (useZones && !vehicleZones[i].has('carriageway') && !vehicleZones[i].has('crosswalk')) return;
+
       const [cx_v, cy_v] = getCenter(v.bbox);
-      const [cx_p, cy_p] = getCenter(p.bbox);
       const dist = distance([cx_v, cy_v], [cx_p, cy_p]);
 
-      // If pedestrian is in lower half (closer to camera) and near vehicle
-      if (cy_p > frameHeight * 0.5 && dist < frameWidth * 0.2) {
-        score += 30;
+      if (dist < frameWidth * model.proximityRadius) {
+        score += weights.proximity;
         proximityRisks++;
+        proximityPairs.push([indexOf.get(v)!, indexOf.get(p)!]);
       }
-    }
+    });
   }
 
   // Clamp to [0, 100]
@@ -91,48 +147,130 @@ export function computeFrameRisk(
 
   return {
     frameIndex: 0,
+    timestamp: 0,
     score,
     detections,
     vehicleCount: vehicles.length,
     personCount: persons.length,
     overlaps,
-    proximityRisks
+    proximityRisks,
+    overlapPairs,
+    proximityPairs,
+    outsideCrosswalk,
+    signalState: governingSignalState(detections),
+    stopSignVisible: detections.some(d => d.className === 'stop sign'),
+    conflicts: conflictPairs.length,
+    conflictPairs,
+    minTtc: minOf(conflictPairs.map(c => c.ttc)),
+    minPet: minOf(conflictPairs.map(c => c.pet))
   };
 }
 
+// What each risk level means for the site, shown in the results panel and reports
+export const ASSESSMENT_TEXT: Record<RiskLevel, { title: string; text: string }> = {
+  LOW: {
+    title: 'Safe Area',
+    text: 'This location shows minimal traffic hazards and pedestrian safety concerns. Vehicle flow and movement patterns are normal with no significant congestion or irregular behavior detected.',
+  },
+  MEDIUM: {
+    title: 'Moderate Caution Required',
+    text: 'The area shows some traffic density and occasional irregular patterns. Exercise standard caution with normal traffic awareness.',
+  },
+  HIGH: {
+    title: 'High Risk - Use Caution',
+    text: 'Multiple traffic irregularities and safety concerns detected. Heightened awareness recommended for drivers and pedestrians.',
+  },
+  CRITICAL: {
+    title: 'Critical Risk - Avoid if Possible',
+    text: 'Significant hazards and safety violations detected. This area requires immediate attention and highest caution level.',
+  },
+};
+
+/**
+ * Map an aggregated score to a risk level using the model's cut-offs
+ */
+export function scoreToLevel(score: number, model: RiskModelConfig = DEFAULT_RISK_MODEL): RiskLevel {
+  return levelFor(score, model.thresholds);
+}
+
+/**
+ * Level cut-offs for the result of an aggregation strategy
+ * Time above threshold is a percentage and uses TIME_SHARE_THRESHOLDS
+ */
+export function levelThresholds(strategy: AggregationStrategy, model: RiskModelConfig = DEFAULT_RISK_MODEL): RiskModelConfig['thresholds'] {
+  return strategy === 'timeAboveThreshold' ? TIME_SHARE_THRESHOLDS : model.thresholds;
+}
+
+/**
+ * Map the result of an aggregation strategy to a risk level
+ */
+export function aggregateToLevel(strategy: AggregationStrategy, value: number, model: RiskModelConfig = DEFAULT_RISK_MODEL): RiskLevel {
+  return levelFor(value, levelThresholds(strategy, model));
+}
+
+function levelFor(value: number, thresholds: RiskModelConfig['thresholds']): RiskLevel {
+  if (value < thresholds.medium) return 'LOW';
+  if (value < thresholds.high) return 'MEDIUM';
+  if (value < thresholds.critical) return 'HIGH';
+  return 'CRITICAL';
+}
+
 /**
  * Aggregate list of frame scores to a final (risk_level, risk_score)
- * Ported from Python aggregate_video_risk()
+ * Ported from Python aggregate_video_risk(); the Python version always
+ * used the mean, here the model picks the strategy and cut-offs
  */
 export function aggregateVideoRisk(
-  frameScores: number[]
-): { riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'; riskScore: number } {
+  frameScores: number[],
+  model: RiskModelConfig = DEFAULT_RISK_MODEL,
+  timestamps?: number[]
+): { riskLevel: RiskLevel; riskScore: number; aggregation: AggregationSummary } {
+  const { strategy } = model.aggregation;
+  const scores = computeAggregates(frameScores, model.aggregation, timestamps);
+  const aggregation: AggregationSummary = { strategy, scores };
+
   if (frameScores.length === 0) {
-    return { riskLevel: 'LOW', riskScore: 0 };
+    return { riskLevel: 'LOW', riskScore: 0, aggregation };
   }
 
-  const avgScore = frameScores.reduce((a, b) => a + b, 0) / frameScores.length;
-
-  let level: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  if (avgScore < 20) {
-    level = 'LOW';
-  } else if (avgScore < 50) {
-    level = 'MEDIUM';
-  } else if (avgScore < 75) {
-    level = 'HIGH';
-  } else {
-    level = 'CRITICAL';
-  }
+  const riskScore = scores[strategy];
+  return { riskLevel: aggregateToLevel(strategy, riskScore, model), riskScore, aggregation };
+}
 
-  return { riskLevel: level, riskScore: Math.round(avgScore) };
+/**
+ * Smallest non-null value, or null
+ */
+function minOf(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? Math.min(...present) : null;
+}
+
+/**
+ * Conflicts of one kind across all frames, keeping the worst TTC per pair
+ */
+function distinctConflicts(frameAnalyses: FrameAnalysis[], kind: ConflictPair['kind']): ConflictPair[] {
+  const byPair = new Map<string, ConflictPair>();
+  for (const frame of frameAnalyses) {
+    for (const pair of frame.conflictPairs) {
+      if (pair.kind !== kind) continue;
+      const key = [...pair.trackIds].sort((a, b) => a - b).join(':');
+      const existing = byPair.get(key);
+      if (!existing || (pair.ttc ?? Infinity) < (existing.ttc ?? Infinity)) {
+        byPair.set(key, pair);
+      }
+    }
+  }
+  return [...byPair.values()];
 }
 
 /**
  * Generate violation summary from frame analyses
+ * Signal violations are found across frames by detectSignalViolations
  */
 export function generateViolations(
   frameAnalyses: FrameAnalysis[],
-  avgScore: number
+  avgScore: number,
+  signalViolations: SignalViolation[] = []
 ): { type: string; count: number; severity: 'low' | 'medium' | 'high' }[] {
   const violations: { type: string; count: number; severity: 'low' | 'medium' | 'high' }[] = [];
 
@@ -142,12 +280,29 @@ export function generateViolations(
   const avgVehicles = frameAnalyses.reduce((sum, f) => sum + f.vehicleCount, 0) / frameAnalyses.length;
   const avgPersons = frameAnalyses.reduce((sum, f) => sum + f.personCount, 0) / frameAnalyses.length;
 
-  // Vehicle-vehicle near collisions
-  if (totalOverlaps > 0) {
+  // Trajectory conflicts, counted once per road-user pair
+  const vehicleConflicts = distinctConflicts(frameAnalyses, 'vehicle-vehicle');
+  const pedestrianConflicts = distinctConflicts(frameAnalyses, 'vehicle-person');
+
+  // Vehicle-vehicle near collisions (TTC/PET, plus overlaps before trajectories exist)
+  const nearCollisions = vehicleConflicts.length + totalOverlaps;
+  if (nearCollisions > 0) {
+    const minTtc = minOf(vehicleConflicts.map(c => c.ttc));
     violations.push({
       type: 'Vehicle Near-Collisions',
-      count: totalOverlaps,
-      severity: totalOverlaps > 5 ? 'high' : totalOverlaps > 2 ? 'medium' : 'low'
+      count: nearCollisions,
+      severity: minTtc !== null
+        ? minTtc < 0.5 ? 'high' : minTtc < 1.0 ? 'medium' : 'low'
+        : nearCollisions > 5 ? 'high' : nearCollisions > 2 ? 'medium' : 'low'
+    });
+  }
+
+  // Vehicle-pedestrian trajectory conflicts
+  if (pedestrianConflicts.length > 0) {
+    violations.push({
+      type: 'Vehicle-Pedestrian Conflicts',
+      count: pedestrianConflicts.length,
+      severity: 'high'
     });
   }
 
@@ -160,6 +315,36 @@ export function generateViolations(
     });
   }
 
+  // Pedestrians on the carriageway away from crosswalks (needs zones)
+  const outsideCrosswalk = new Set(frameAnalyses.flatMap(f => f.outsideCrosswalk));
+  if (outsideCrosswalk.size > 0) {
+    violations.push({
+      type: 'Pedestrians Crossing Outside Crosswalk',
+      count: outsideCrosswalk.size,
+      severity: outsideCrosswalk.size > 3 ? 'high' : 'medium'
+    });
+  }
+
+  // Entering the stop line on red
+  const redLight = signalViolations.filter(v => v.kind === 'red-light');
+  if (redLight.length > 0) {
+    violations.push({
+      type: 'Red-Light Violations',
+      count: redLight.length,
+      severity: 'high'
+    });
+  }
+
+  // Passing a stop sign without stopping
+  const stopSign = signalViolations.filter(v => v.kind === 'stop-sign');
+  if (stopSign.length > 0) {
+    violations.push({
+      type: 'Stop Sign Violations',
+      count: stopSign.length,
+      severity: stopSign.length > 2 ? 'high' : 'medium'
+    });
+  }
+
   // Traffic congestion
   if (avgVehicles > 8) {
     violations.push({
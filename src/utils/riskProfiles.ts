@@ -0,0 +1,143 @@
+/**
+ * riskProfiles.ts - Risk Model Profiles
+ *
+ * Named calibrations of the frame scoring weights and level cut-offs.
+ * Built-in profiles cover common site types; user-defined profiles are
+ * kept in localStorage so they survive reloads.
+ */
+
+import { RiskModelConfig } from '../types';
+import { DEFAULT_AGGREGATION } from './aggregation';
+
+const STORAGE_KEY = 'safesight.riskProfiles';
+
+// Original weights from Python risk_logic.py
+export const DEFAULT_RISK_MODEL: RiskModelConfig = {
+  id: 'urban',
+  name: 'Urban Intersection',
+  description: 'Original calibration from risk_logic.py',
+  builtIn: true,
+  weights: { vehicle: 3, person: 5, conflict: 20, proximity: 30 },
+  proximityRadius: 0.2,
+  thresholds: { medium: 20, high: 50, critical: 75 },
+  aggregation: DEFAULT_AGGREGATION,
+};
+
+export const BUILT_IN_RISK_MODELS: RiskModelConfig[] = [
+  DEFAULT_RISK_MODEL,
+  {
+    id: 'highway',
+    name: 'Highway',
+    description: 'Dense traffic is normal; conflicts and pedestrians are severe',
+    builtIn: true,
+    weights: { vehicle: 1, person: 10, conflict: 30, proximity: 40 },
+    proximityRadius: 0.15,
+    thresholds: { medium: 15, high: 40, critical: 65 },
+    aggregation: { ...DEFAULT_AGGREGATION, strategy: 'ewmMax', ewmHalfLife: 1 },
+  },
+  {
+    id: 'school-zone',
+    name: 'School Zone',
+    description: 'Low tolerance for vehicles near children',
+    builtIn: true,
+    weights: { vehicle: 3, person: 4, conflict: 25, proximity: 45 },
+    proximityRadius: 0.25,
+    thresholds: { medium: 15, high: 35, critical: 60 },
+    aggregation: { ...DEFAULT_AGGREGATION, strategy: 'percentile', percentile: 90 },
+  },
+  {
+    id: 'market',
+    name: 'Market Street',
+    description: 'Crowds are expected; slow mixed traffic',
+    builtIn: true,
+    weights: { vehicle: 2, person: 1, conflict: 20, proximity: 25 },
+    proximityRadius: 0.15,
+    thresholds: { medium: 25, high: 55, critical: 80 },
+    aggregation: DEFAULT_AGGREGATION,
+  },
+];
+
+/**
+ * Load user-defined profiles from localStorage
+ */
+export function loadCustomRiskModels(): RiskModelConfig[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    // Profiles saved before aggregation strategies existed use the mean
+    return parsed.filter(isRiskModelConfig).map(model => ({
+      ...model,
+      aggregation: { ...DEFAULT_AGGREGATION, ...model.aggregation },
+    }));
+  } catch (error) {
+    console.error('[riskProfiles] Could not load custom profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Save user-defined profiles to localStorage
+ */
+export function saveCustomRiskModels(models: RiskModelConfig[]): void {
+  const custom = models.filter(m => !m.builtIn);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+}
+
+/**
+ * Find a profile by id, falling back to the default
+ */
+export function findRiskModel(models: RiskModelConfig[], id: string): RiskModelConfig {
+  return models.find(m => m.id === id) || DEFAULT_RISK_MODEL;
+}
+
+/**
+ * Start a new user-defined profile from an existing one
+ */
+export function cloneRiskModel(base: RiskModelConfig, name: string): RiskModelConfig {
+  return {
+    ...base,
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    description: `Based on ${base.name}`,
+    builtIn: false,
+    weights: { ...base.weights },
+    thresholds: { ...base.thresholds },
+    aggregation: { ...base.aggregation },
+  };
+}
+
+/**
+ * Check that thresholds are increasing and weights non-negative
+ * Returns a message describing the first problem, or null
+ */
+export function validateRiskModel(model: RiskModelConfig): string | null {
+  if (!model.name.trim()) return 'Profile needs a name';
+  if (Object.values(model.weights).some(w => !Number.isFinite(w) || w < 0)) {
+    return 'Weights must be zero or positive numbers';
+  }
+  if (!(model.proximityRadius > 0 && model.proximityRadius <= 1)) {
+    return 'Proximity radius must be between 0 and 1';
+  }
+  const { medium, high, critical } = model.thresholds;
+  if (!(medium > 0 && medium < high && high < critical && critical <= 100)) {
+    return 'Thresholds must increase: 0 < medium < high < critical ≤ 100';
+  }
+  const { percentile, ewmHalfLife, timeAboveThreshold } = model.aggregation;
+  if (!(percentile > 0 && percentile <= 100)) return 'Percentile must be between 1 and 100';
+  if (!(ewmHalfLife > 0)) return 'Moving maximum half-life must be positive';
+  if (!(timeAboveThreshold >= 0 && timeAboveThreshold <= 100)) {
+    return 'Time-above threshold must be between 0 and 100';
+  }
+  return null;
+}
+
+function isRiskModelConfig(value: unknown): value is RiskModelConfig {
+  const model = value as RiskModelConfig;
+  return typeof model?.id === 'string'
+    && typeof model.name === 'string'
+    && typeof model.weights === 'object'
+    && typeof model.thresholds === 'object'
+    && typeof model.proximityRadius === 'number';
+}
@@ -0,0 +1,182 @@
+/**
+ * signals.ts - Traffic Signal Rules
+ *
+ * Reads traffic light state from the color of the lit lamp inside each
+ * detected light, then checks vehicles crossing the stop line against it:
+ * entering on red, or passing a stop sign without coming to a stop.
+ * The stop line comes from user-drawn zones (stop lines, else the near
+ * edge of crosswalks), so these rules only run where zones exist.
+ */
+
+import { Detection, FrameAnalysis, SignalState, SignalViolation, VEHICLE_CLASSES, Zone } from '../types';
+import { groundPoint, pointInPolygon } from './zones';
+
+// Share of the crop that must be lit lamp before a state is trusted
+const MIN_LIT_FRACTION = 0.03;
+
+// A missed reading keeps the last known state this long (lamp flicker, blur)
+const SIGNAL_HOLD_S = 1.0;
+
+// Below this speed (fraction of frame width per second) a vehicle has stopped
+const STOPPED_SPEED = 0.02;
+
+// How far before the crossing a stop must have happened
+const STOP_WINDOW_S = 3.0;
+
+/**
+ * Classify a traffic light by counting bright, saturated pixels by hue
+ */
+export function classifySignalState(pixels: ImageData, bbox: Detection['bbox']): SignalState {
+  const x1 = Math.max(0, Math.floor(bbox[0]));
+  const y1 = Math.max(0, Math.floor(bbox[1]));
+  const x2 = Math.min(pixels.width, Math.ceil(bbox[2]));
+  const y2 = Math.min(pixels.height, Math.ceil(bbox[3]));
+  const area = (x2 - x1) * (y2 - y1);
+  if (area <= 0) return 'unknown';
+
+  const counts = { red: 0, yellow: 0, green: 0 };
+  const { data, width } = pixels;
+  for (let y = y1; y < y2; y++) {
+    for (let x = x1; x < x2; x++) {
+      const i = (y * width + x) * 4;
+      const r = data[i] / 255;
+      const g = data[i + 1] / 255;
+      const b = data[i + 2] / 255;
+      const max = Math.max(r, g, b);
+      const delta = max - Math.min(r, g, b);
+      // Lit lamps are bright and saturated; the housing is neither
+      if (max < 0.5 || delta / max < 0.4) continue;
+
+      let hue: number;
+      if (max === r) hue = 60 * (((g - b) / delta + 6) % 6);
+      else if (max === g) hue = 60 * ((b - r) / delta + 2);
+      else hue = 60 * ((r - g) / delta + 4);
+
+      if (hue < 20 || hue >= 330) counts.red++;
+      else if (hue < 70) counts.yellow++;
+      else if (hue >= 90 && hue < 200) counts.green++;
+    }
+  }
+
+  const [state, lit] = (Object.entries(counts) as [SignalState, number][]).sort((a, b) => b[1] - a[1])[0];
+  return lit / area >= MIN_LIT_FRACTION ? state : 'unknown';
+}
+
+/**
+ * Set signalState on every traffic light in a frame
+ */
+export function annotateSignals(detections: Detection[], pixels: ImageData): Detection[] {
+  return detections.map(d =>
+    d.className === 'traffic light' ? { ...d, signalState: classifySignalState(pixels, d.bbox) } : d
+  );
+}
+
+/**
+ * State of the governing light: the largest (closest) one with a reading
+ */
+export function governingSignalState(detections: Detection[]): SignalState | null {
+  const lights = detections.filter(d => d.className === 'traffic light');
+  if (lights.length === 0) return null;
+
+  const area = (d: Detection) => (d.bbox[2] - d.bbox[0]) * (d.bbox[3] - d.bbox[1]);
+  const read = lights.filter(d => d.signalState && d.signalState !== 'unknown').sort((a, b) => area(b) - area(a));
+  return read[0]?.signalState ?? 'unknown';
+}
+
+/**
+ * Polygons vehicles must stop before
+ * Drawn stop lines take priority; crosswalks stand in when none are drawn
+ */
+function stopLinePolygons(zones: Zone[]): [number, number][][] {
+  const lines = zones.filter(z => z.kind === 'stop_line');
+  return (lines.length > 0 ? lines : zones.filter(z => z.kind === 'crosswalk')).map(z => z.points);
+}
+
+function segmentsIntersect(
+  p1: [number, number], p2: [number, number], q1: [number, number], q2: [number, number]
+): boolean {
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+}
+
+/**
+ * Whether a move from `from` to `to` enters or crosses the polygon
+ */
+function movesAcross(from: [number, number], to: [number, number], polygon: [number, number][]): boolean {
+  if (pointInPolygon(from, polygon)) return false;
+  if (pointInPolygon(to, polygon)) return true;
+  return polygon.some((point, i) => segmentsIntersect(from, to, point, polygon[(i + 1) % polygon.length]));
+}
+
+function speedOf(detection: Detection): number {
+  return detection.velocity ? Math.hypot(detection.velocity[0], detection.velocity[1]) : NaN;
+}
+
+/**
+ * Find vehicles crossing the stop line on red or without stopping at a stop sign
+ * Each vehicle is reported at most once per rule
+ */
+export function detectSignalViolations(
+  frames: FrameAnalysis[],
+  zones: Zone[] = [],
+  frameWidth: number,
+  frameHeight: number
+): SignalViolation[] {
+  const polygons = stopLinePolygons(zones);
+  if (polygons.length === 0) return [];
+
+  const violations: SignalViolation[] = [];
+  const reported = new Set<string>();
+  const history = new Map<number, { timestamp: number; point: [number, number]; speed: number }[]>();
+  let signal: SignalState | null = null;
+  let signalSeenAt = -Infinity;
+  let stopSignSeenAt = -Infinity;
+  const stoppedBelow = STOPPED_SPEED * frameWidth;
+
+  for (const frame of frames) {
+    // Hold the last reading through short gaps
+    if (frame.signalState && frame.signalState !== 'unknown') {
+      signal = frame.signalState;
+      signalSeenAt = frame.timestamp;
+    } else if (frame.timestamp - signalSeenAt > SIGNAL_HOLD_S) {
+      signal = frame.signalState;
+    }
+    if (frame.stopSignVisible) stopSignSeenAt = frame.timestamp;
+
+    for (const vehicle of frame.detections) {
+      if (!VEHICLE_CLASSES.includes(vehicle.className) || vehicle.trackId === undefined) continue;
+
+      const point = groundPoint(vehicle, frameWidth, frameHeight);
+      const speed = speedOf(vehicle);
+      const past = history.get(vehicle.trackId) ?? [];
+      const previous = past[past.length - 1];
+      past.push({ timestamp: frame.timestamp, point, speed });
+      history.set(vehicle.trackId, past);
+
+      if (!previous || !polygons.some(polygon => movesAcross(previous.point, point, polygon))) continue;
+
+      const record = (kind: SignalViolation['kind']) => {
+        const key = `${kind}:${vehicle.trackId}`;
+        if (reported.has(key)) return;
+        reported.add(key);
+        violations.push({ kind, trackId: vehicle.trackId!, timestamp: frame.timestamp, speed: Number.isNaN(speed) ? 0 : speed });
+      };
+
+      if (signal === 'red') record('red-light');
+
+      // A stop sign needs a stop somewhere in the approach; skip tracks too
+      // young to have a speed reading
+      if (frame.timestamp - stopSignSeenAt <= STOP_WINDOW_S) {
+        const approach = past.filter(h => frame.timestamp - h.timestamp <= STOP_WINDOW_S && !Number.isNaN(h.speed));
+        if (approach.length >= 2 && approach.every(h => h.speed >= stoppedBelow)) record('stop-sign');
+      }
+    }
+  }
+
+  return violations;
+}
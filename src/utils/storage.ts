@@ -0,0 +1,126 @@
+/**
+ * storage.ts - Local Analysis History
+ *
+ * Saves RiskAnalysis records in IndexedDB so history survives reloads.
+ * Records carry a schema version; older records are migrated step by
+ * step when read, and timestamps come back as Date objects. The same
+ * database holds the geocoding cache (geocodeCache.ts) and the offline
+ * gazetteer (gazetteer.ts).
+ */
+
+import { AnalysisResponse, RiskAnalysis } from '../types';
+import { riskAnalysisSchema, parseWithSchema, toAnalysisResponse } from '../types/schema';
+
+const DB_NAME = 'safesight';
+const DB_VERSION = 3;
+const ANALYSES_STORE = 'analyses';
+export const GEOCODE_STORE = 'geocode';
+export const GAZETTEER_STORE = 'gazetteer';
+
+// Version of the stored RiskAnalysis shape; bump and add a migration when the type changes
+export const RECORD_VERSION = 1;
+
+// Analysis as stored: the wire form, tagged with the shape version
+export interface StoredAnalysis extends AnalysisResponse {
+  schemaVersion: number;
+}
+
+type RecordMigration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+// RECORD_MIGRATIONS[n] upgrades a record from version n to n + 1
+const RECORD_MIGRATIONS: Record<number, RecordMigration> = {};
+
+/**
+ * Bring a stored or imported record up to the current shape
+ * Throws when the migrated record still does not match the schema
+ */
+export function migrateAnalysis(raw: Record<string, unknown>): RiskAnalysis {
+  let record = raw;
+  // Records without a version (server results, early exports) have the first shape
+  let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  if (version > RECORD_VERSION) {
+    throw new Error(`Analysis ${String(raw.id)} was saved by a newer version (schema ${version})`);
+  }
+  while (version < RECORD_VERSION) {
+    const migrate = RECORD_MIGRATIONS[version];
+    if (!migrate) throw new Error(`Analysis ${String(raw.id)} has an unknown schema version ${version}`);
+    record = migrate(record);
+    version++;
+  }
+
+  const { schemaVersion: _schemaVersion, ...analysis } = record;
+  return parseWithSchema(riskAnalysisSchema, { ...analysis, timestamp: new Date(analysis.timestamp as string) }, `analysis ${String(raw.id)}`);
+}
+
+/**
+ * Plain-JSON form of an analysis, as stored and exported
+ */
+export function serializeAnalysis(analysis: RiskAnalysis): StoredAnalysis {
+  return { ...toAnalysisResponse(analysis), schemaVersion: RECORD_VERSION };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Store layout changes go here, keyed on the version being upgraded from
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(GEOCODE_STORE, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(GAZETTEER_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open analysis history'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Every saved analysis, oldest first
+ */
+export async function loadAnalyses(): Promise<RiskAnalysis[]> {
+  const db = await openDatabase();
+  const index = db.transaction(ANALYSES_STORE, 'readonly').objectStore(ANALYSES_STORE).index('timestamp');
+  const records = await promisify(index.getAll());
+
+  const analyses: RiskAnalysis[] = [];
+  for (const record of records) {
+    try {
+      analyses.push(migrateAnalysis(record));
+    } catch (error) {
+      console.error('[storage] Skipping unreadable analysis:', error);
+    }
+  }
+  console.log(`[storage] Loaded ${analyses.length} saved analyses`);
+  return analyses;
+}
+
+/**
+ * Insert or replace an analysis
+ */
+export async function saveAnalysis(analysis: RiskAnalysis): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(ANALYSES_STORE, 'readwrite').objectStore(ANALYSES_STORE).put(serializeAnalysis(analysis)));
+}
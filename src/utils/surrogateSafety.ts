@@ -0,0 +1,106 @@
+/**
+ * surrogateSafety.ts - Trajectory-Based Conflict Measures
+ *
+ * Surrogate safety measures between pairs of tracked road users:
+ * - Time-to-collision (TTC): time until two users moving at their
+ *   current velocities would touch
+ * - Post-encroachment time (PET): gap between the two users reaching
+ *   the point where their predicted paths cross
+ *
+ * Positions and velocities are in image pixels, so the measures are
+ * approximate under perspective but, unlike box overlap, they ignore
+ * queued traffic and catch fast-closing pairs before they overlap.
+ */
+
+import { Detection } from '../types';
+
+// A pair is a conflict when either measure falls below its threshold
+export const TTC_CONFLICT_THRESHOLD = 1.5; // seconds
+export const PET_CONFLICT_THRESHOLD = 1.0; // seconds
+
+// Ignore predictions further ahead than this
+const PREDICTION_HORIZON = 5; // seconds
+
+export interface PairMeasures {
+  ttc: number | null;
+  pet: number | null;
+}
+
+/**
+ * Approximate a road user by a circle around its box center
+ */
+function radius(detection: Detection): number {
+  const [x1, y1, x2, y2] = detection.bbox;
+  return Math.sqrt((x2 - x1) * (y2 - y1)) * 0.4;
+}
+
+/**
+ * Time until the two circles touch under constant velocity, or null
+ * when they are not closing within the horizon
+ */
+export function timeToCollision(a: Detection, b: Detection): number | null {
+  if (!a.velocity || !b.velocity) return null;
+
+  const px = b.center[0] - a.center[0];
+  const py = b.center[1] - a.center[1];
+  const vx = b.velocity[0] - a.velocity[0];
+  const vy = b.velocity[1] - a.velocity[1];
+  const reach = radius(a) + radius(b);
+
+  // Solve |p + v t| = reach for the earliest t >= 0
+  const qa = vx * vx + vy * vy;
+  const qb = 2 * (px * vx + py * vy);
+  const qc = px * px + py * py - reach * reach;
+
+  // Already touching: a conflict only if they are still closing
+  if (qc <= 0) return qb < 0 ? 0 : null;
+  if (qa === 0 || qb >= 0) return null;
+
+  const discriminant = qb * qb - 4 * qa * qc;
+  if (discriminant < 0) return null;
+
+  const t = (-qb - Math.sqrt(discriminant)) / (2 * qa);
+  return t >= 0 && t <= PREDICTION_HORIZON ? t : null;
+}
+
+/**
+ * Predicted post-encroachment time: the difference between the times the
+ * two users reach the crossing point of their straight-line paths
+ */
+export function postEncroachmentTime(a: Detection, b: Detection): number | null {
+  if (!a.velocity || !b.velocity) return null;
+
+  const [ax, ay] = a.center;
+  const [bx, by] = b.center;
+  const [avx, avy] = a.velocity;
+  const [bvx, bvy] = b.velocity;
+
+  // Solve a + avel * ta = b + bvel * tb
+  const denominator = avx * -bvy - avy * -bvx;
+  if (Math.abs(denominator) < 1e-6) return null; // parallel or stationary
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const ta = (dx * -bvy - dy * -bvx) / denominator;
+  const tb = (avx * dy - avy * dx) / denominator;
+
+  if (ta < 0 || tb < 0 || ta > PREDICTION_HORIZON || tb > PREDICTION_HORIZON) return null;
+  return Math.abs(ta - tb);
+}
+
+/**
+ * Both measures for a pair
+ */
+export function measurePair(a: Detection, b: Detection): PairMeasures {
+  return {
+    ttc: timeToCollision(a, b),
+    pet: postEncroachmentTime(a, b)
+  };
+}
+
+/**
+ * Whether a pair's measures count as a traffic conflict
+ */
+export function isConflict({ ttc, pet }: PairMeasures): boolean {
+  return (ttc !== null && ttc <= TTC_CONFLICT_THRESHOLD) || (pet !== null && pet <= PET_CONFLICT_THRESHOLD);
+}
@@ -0,0 +1,200 @@
+/**
+ * tracking.ts - Multi-Object Tracking
+ *
+ * Associates detections across frames (IoU against a constant-velocity
+ * prediction, with a distance fallback for fast movers) and assigns
+ * stable track IDs, so road users are counted once per video and their
+ * motion can be reasoned about.
+ */
+
+import { Detection, RoadUserCategory, TrackSummary, VEHICLE_CLASSES, PERSON_CLASSES } from '../types';
+import { iou } from './riskLogic';
+
+type Box = [number, number, number, number];
+
+export interface TrackPoint {
+  timestamp: number;
+  bbox: Box;
+  center: [number, number];
+}
+
+export interface Track {
+  trackId: number;
+  className: string;
+  category: RoadUserCategory;
+  bbox: Box;
+  velocity: [number, number]; // px/s of the box center
+  firstSeen: number;
+  lastSeen: number;
+  frameCount: number;
+  history: TrackPoint[];
+}
+
+export interface TrackerOptions {
+  /** Minimum IoU between prediction and detection to associate them */
+  iouThreshold?: number;
+  /** Seconds a track survives without a matching detection */
+  maxAge?: number;
+  /** Number of positions kept per track for motion estimates */
+  historyLength?: number;
+}
+
+export interface Tracker {
+  /** Associate one frame of detections; returns them with trackId set */
+  update(detections: Detection[], timestamp: number): Detection[];
+  /** Current state of a live track */
+  getTrack(trackId: number): Track | undefined;
+  /** Lifetimes of every track seen so far */
+  summarize(): TrackSummary[];
+}
+
+/**
+ * Map a class name to the road user category used by risk rules
+ */
+export function getRoadUserCategory(className: string): RoadUserCategory {
+  if (VEHICLE_CLASSES.includes(className)) return 'vehicle';
+  if (PERSON_CLASSES.includes(className)) return 'person';
+  return 'other';
+}
+
+/**
+ * Shift a box by a constant-velocity prediction over dt seconds
+ */
+function predictBox(track: Track, timestamp: number): Box {
+  const dt = timestamp - track.lastSeen;
+  const [vx, vy] = track.velocity;
+  const [x1, y1, x2, y2] = track.bbox;
+  return [x1 + vx * dt, y1 + vy * dt, x2 + vx * dt, y2 + vy * dt];
+}
+
+/**
+ * Center distance normalised by the box diagonal, used when boxes no
+ * longer overlap because the object moved far between sampled frames
+ */
+function normalizedDistance(a: Box, b: Box): number {
+  const dx = (a[0] + a[2]) / 2 - (b[0] + b[2]) / 2;
+  const dy = (a[1] + a[3]) / 2 - (b[1] + b[3]) / 2;
+  const diagonal = Math.hypot(a[2] - a[0], a[3] - a[1]) || 1;
+  return Math.hypot(dx, dy) / diagonal;
+}
+
+/**
+ * Create a tracker that keeps state across calls to update()
+ */
+export function createTracker(options: TrackerOptions = {}): Tracker {
+  const { iouThreshold = 0.2, maxAge = 1.0, historyLength = 30 } = options;
+
+  const active = new Map<number, Track>();
+  const finished: Track[] = [];
+  let nextId = 1;
+
+  const startTrack = (detection: Detection, timestamp: number): Track => {
+    const track: Track = {
+      trackId: nextId++,
+      className: detection.className,
+      category: getRoadUserCategory(detection.className),
+      bbox: detection.bbox,
+      velocity: [0, 0],
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      frameCount: 1,
+      history: [{ timestamp, bbox: detection.bbox, center: detection.center }]
+    };
+    active.set(track.trackId, track);
+    return track;
+  };
+
+  const extendTrack = (track: Track, detection: Detection, timestamp: number) => {
+    const dt = timestamp - track.lastSeen;
+    if (dt > 0) {
+      const [px, py] = track.history[track.history.length - 1].center;
+      const measured: [number, number] = [
+        (detection.center[0] - px) / dt,
+        (detection.center[1] - py) / dt
+      ];
+      // Smooth the velocity so one noisy box does not dominate the prediction
+      track.velocity = track.frameCount === 1
+        ? measured
+        : [0.6 * measured[0] + 0.4 * track.velocity[0], 0.6 * measured[1] + 0.4 * track.velocity[1]];
+    }
+    track.bbox = detection.bbox;
+    track.lastSeen = timestamp;
+    track.frameCount++;
+    track.history.push({ timestamp, bbox: detection.bbox, center: detection.center });
+    if (track.history.length > historyLength) track.history.shift();
+  };
+
+  const update = (detections: Detection[], timestamp: number): Detection[] => {
+    // Retire tracks that have been missing for too long
+    for (const track of active.values()) {
+      if (timestamp - track.lastSeen > maxAge) {
+        active.delete(track.trackId);
+        finished.push(track);
+      }
+    }
+
+    // Score every same-category (track, detection) pair
+    const candidates: { trackId: number; index: number; score: number }[] = [];
+    detections.forEach((detection, index) => {
+      const category = getRoadUserCategory(detection.className);
+      for (const track of active.values()) {
+        if (track.category !== category) continue;
+        const predicted = predictBox(track, timestamp);
+        const overlap = iou(predicted, detection.bbox);
+        if (overlap >= iouThreshold) {
+          candidates.push({ trackId: track.trackId, index, score: overlap });
+        } else if (normalizedDistance(predicted, detection.bbox) < 0.5) {
+          // Below any IoU match so overlapping pairs always win
+          candidates.push({ trackId: track.trackId, index, score: iouThreshold * 0.5 });
+        }
+      }
+    });
+
+    // Greedy assignment, best pairs first
+    candidates.sort((a, b) => b.score - a.score);
+    const assigned = new Map<number, number>(); // detection index -> trackId
+    const usedTracks = new Set<number>();
+    for (const { trackId, index } of candidates) {
+      if (assigned.has(index) || usedTracks.has(trackId)) continue;
+      assigned.set(index, trackId);
+      usedTracks.add(trackId);
+    }
+
+    return detections.map((detection, index) => {
+      const trackId = assigned.get(index);
+      const track = trackId !== undefined ? active.get(trackId)! : startTrack(detection, timestamp);
+      if (trackId !== undefined) extendTrack(track, detection, timestamp);
+      return track.frameCount > 1
+        ? { ...detection, trackId: track.trackId, velocity: track.velocity }
+        : { ...detection, trackId: track.trackId };
+    });
+  };
+
+  const summarize = (): TrackSummary[] =>
+    [...finished, ...active.values()]
+      .map(track => ({
+        trackId: track.trackId,
+        className: track.className,
+        category: track.category,
+        firstSeen: track.firstSeen,
+        lastSeen: track.lastSeen,
+        frameCount: track.frameCount
+      }))
+      .sort((a, b) => a.trackId - b.trackId);
+
+  return {
+    update,
+    getTrack: (trackId) => active.get(trackId),
+    summarize
+  };
+}
+
+/**
+ * Count distinct road users per category from track summaries
+ */
+export function countUniqueRoadUsers(tracks: TrackSummary[]): { vehicles: number; persons: number } {
+  return {
+    vehicles: tracks.filter(t => t.category === 'vehicle').length,
+    persons: tracks.filter(t => t.category === 'person').length
+  };
+}
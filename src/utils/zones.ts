@@ -0,0 +1,126 @@
+/**
+ * zones.ts - Camera View Zones
+ *
+ * User-drawn polygons (crosswalks, carriageway, sidewalks, bus stops,
+ * stop lines) that risk rules test road users against, replacing the
+ * "lower half of the frame" heuristic. Zone sets are saved per location in localStorage so
+ * later clips from the same camera reuse them.
+ */
+
+import { Detection, Zone, ZoneKind, ZoneSet } from '../types';
+
+const STORAGE_KEY = 'safesight.zoneSets';
+
+// Clips within this distance of a saved zone set share it
+const SAME_CAMERA_RADIUS_M = 50;
+
+export const ZONE_LABELS: Record<ZoneKind, string> = {
+  crosswalk: 'Crosswalk',
+  carriageway: 'Carriageway',
+  sidewalk: 'Sidewalk',
+  bus_stop: 'Bus Stop',
+  stop_line: 'Stop Line',
+};
+
+export const ZONE_COLORS: Record<ZoneKind, string> = {
+  crosswalk: '#facc15',
+  carriageway: '#ef4444',
+  sidewalk: '#22c55e',
+  bus_stop: '#3b82f6',
+  stop_line: '#f8fafc',
+};
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function pointInPolygon(point: [number, number], polygon: [number, number][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Where a road user touches the ground: bottom-center of the box,
+ * normalised to frame size
+ */
+export function groundPoint(detection: Detection, frameWidth: number, frameHeight: number): [number, number] {
+  const [x1, , x2, y2] = detection.bbox;
+  return [(x1 + x2) / 2 / frameWidth, y2 / frameHeight];
+}
+
+/**
+ * Kinds of every zone containing the road user's ground point
+ */
+export function zoneKindsAt(
+  detection: Detection,
+  zones: Zone[],
+  frameWidth: number,
+  frameHeight: number
+): Set<ZoneKind> {
+  const point = groundPoint(detection, frameWidth, frameHeight);
+  return new Set(zones.filter(z => pointInPolygon(point, z.points)).map(z => z.kind));
+}
+
+/**
+ * Great-circle distance in metres
+ */
+export function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Load every saved zone set
+ */
+export function loadZoneSets(): ZoneSet[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[zones] Could not load zone sets:', error);
+    return [];
+  }
+}
+
+/**
+ * Insert or replace a zone set
+ */
+export function saveZoneSet(zoneSet: ZoneSet): void {
+  const others = loadZoneSets().filter(z => z.id !== zoneSet.id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...others, zoneSet]));
+}
+
+/**
+ * Zone set saved for the nearest camera within SAME_CAMERA_RADIUS_M
+ */
+export function findZoneSetNear(lat: number, lon: number): ZoneSet | null {
+  let best: ZoneSet | null = null;
+  let bestDistance = SAME_CAMERA_RADIUS_M;
+  for (const zoneSet of loadZoneSets()) {
+    const d = haversineMeters(lat, lon, zoneSet.lat, zoneSet.lon);
+    if (d <= bestDistance) {
+      best = zoneSet;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/**
+ * Unique ID for a new zone or zone set
+ */
+export function createZoneId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
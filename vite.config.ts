@@ -2,7 +2,7 @@ import path from "path";
 import { fileURLToPath } from "url";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { defaultClientConditions, defineConfig } from "vite";
 import { viteSingleFile } from "vite-plugin-singlefile";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -15,5 +15,14 @@ export default defineConfig({
     alias: {
       "@": path.resolve(__dirname, "src"),
     },
+    // Load the onnxruntime-web WASM binaries at runtime instead of inlining them
+    conditions: [...defaultClientConditions, "onnxruntime-web-use-extern-wasm"],
+  },
+  // The analysis worker is inlined into the single-file build, so it must be one chunk
+  worker: {
+    format: "es",
+    rollupOptions: {
+      output: { inlineDynamicImports: true },
+    },
   },
 });